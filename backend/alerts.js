@@ -0,0 +1,139 @@
+// Alert rules from the `alert_rules` table, evaluated periodically against api_usage_logs:
+//   { metric: 'spend', threshold: 50, window_minutes: 60, service_name: 'Halo-OCR',
+//     webhook_url: 'https://hooks.slack.com/...', format: 'slack', cooldown_minutes: 60 }
+// Metrics over the window:
+//   spend       - sum of estimated_cost (USD)
+//   error_rate  - % of requests with status_code >= 400 (see ALERT_EXCLUDED_OUTCOMES)
+//   latency     - 95th percentile latency_ms
+//   tokens      - input + output + cache + reasoning tokens
+// A rule fires when the value goes above its threshold; error_rate and latency rules also
+// need `min_requests` in the window so one failed call doesn't count as a 100% error rate. It notifies when it starts firing,
+// at most once per `cooldown_minutes` while it keeps firing, and once when it resolves.
+export const ALERT_METRICS = ['spend', 'error_rate', 'latency', 'tokens'];
+export const ALERT_FORMATS = ['generic', 'slack', 'teams'];
+
+// Rows that say nothing about the upstream's health: answered by the gateway itself, or
+// abandoned by the caller
+export const ALERT_EXCLUDED_OUTCOMES = ['throttled', 'budget_blocked', 'cache_hit', 'client_aborted'];
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const compileAlertRule = (row) => ({
+    id: row.id,
+    name: row.name || `${row.metric} > ${row.threshold}`,
+    metric: row.metric,
+    threshold: Number(row.threshold),
+    windowMinutes: Math.max(Number(row.window_minutes || 60), 1),
+    serviceName: row.service_name || null,
+    userId: row.user_id || null,
+    webhookUrl: row.webhook_url,
+    format: ALERT_FORMATS.includes(row.format) ? row.format : 'generic',
+    cooldownMinutes: Math.max(Number(row.cooldown_minutes ?? 60), 0),
+    minRequests: Math.max(Number(row.min_requests || 1), 1),
+});
+
+// `stats` are the window's totals from storage.usage.alertWindowStats, already filtered to the
+// rule's service/user, with ALERT_EXCLUDED_OUTCOMES left out of requests, errors and latency
+export const computeAlertMetric = (metric, stats) => {
+    const requests = Number(stats.requests || 0);
+    switch (metric) {
+        case 'spend':
+            return Number(stats.spend || 0);
+        case 'error_rate':
+            return requests ? (Number(stats.errors || 0) / requests) * 100 : 0;
+        case 'latency':
+            return Number(stats.p95_latency || 0);
+        case 'tokens':
+            return Number(stats.tokens || 0);
+        default:
+            return 0;
+    }
+};
+
+export const evaluateAlertRule = (rule, stats) => {
+    const value = computeAlertMetric(rule.metric, stats);
+    const requests = Number(stats.requests || 0);
+    const enoughTraffic = !['error_rate', 'latency'].includes(rule.metric) || requests >= rule.minRequests;
+    return { value, requests, isFiring: enoughTraffic && value > rule.threshold };
+};
+
+// Returns 'firing', 'resolved' or null (nothing to send). `state` is { firing, lastFiredAt }
+// for one rule, as of the last notification that was delivered. Firing notifications respect
+// the cooldown even if the rule resolved in between, so a flapping metric can't page repeatedly.
+export const nextNotification = (rule, state, isFiring, now = Date.now()) => {
+    if (!isFiring) return state.firing ? 'resolved' : null;
+    const cooledDown = !state.lastFiredAt || now - state.lastFiredAt >= rule.cooldownMinutes * 60 * 1000;
+    return cooledDown ? 'firing' : null;
+};
+
+const METRIC_LABELS = {
+    spend: ['Spend', (value) => `$${value.toFixed(2)}`],
+    error_rate: ['Error rate', (value) => `${value.toFixed(1)}%`],
+    latency: ['p95 latency', (value) => `${Math.round(value)}ms`],
+    tokens: ['Tokens', (value) => Math.round(value).toLocaleString('en-US')],
+};
+
+export const describeAlert = (rule, status, value) => {
+    const [label, format] = METRIC_LABELS[rule.metric] || [rule.metric, String];
+    const scope = [rule.serviceName, rule.userId].filter(Boolean).join(' / ') || 'all traffic';
+    const summary = status === 'resolved'
+        ? `Resolved: ${rule.name} (${label} ${format(value)}, threshold ${format(rule.threshold)})`
+        : `${rule.name}: ${label} ${format(value)} is above ${format(rule.threshold)} over the last ${rule.windowMinutes} min`;
+    return { label, scope, summary, value: format(value), threshold: format(rule.threshold) };
+};
+
+// Generic JSON, Slack incoming webhook, or Microsoft Teams connector (MessageCard) payload
+export const buildAlertPayload = (rule, status, value, at = new Date()) => {
+    const description = describeAlert(rule, status, value);
+    const facts = [
+        ['Metric', description.label],
+        ['Value', description.value],
+        ['Threshold', description.threshold],
+        ['Window', `${rule.windowMinutes} min`],
+        ['Scope', description.scope],
+    ];
+
+    if (rule.format === 'slack') {
+        return {
+            text: `${status === 'resolved' ? '✅' : '🚨'} ${description.summary}`,
+            blocks: [
+                { type: 'section', text: { type: 'mrkdwn', text: `*${status === 'resolved' ? '✅' : '🚨'} ${description.summary}*` } },
+                { type: 'section', fields: facts.map(([name, factValue]) => ({ type: 'mrkdwn', text: `*${name}*\n${factValue}` })) },
+            ],
+        };
+    }
+
+    if (rule.format === 'teams') {
+        return {
+            '@type': 'MessageCard',
+            '@context': 'http://schema.org/extensions',
+            summary: description.summary,
+            themeColor: status === 'resolved' ? '2EB67D' : 'E01E5A',
+            title: description.summary,
+            sections: [{ facts: facts.map(([name, factValue]) => ({ name, value: factValue })) }],
+        };
+    }
+
+    return {
+        alert: rule.name,
+        rule_id: rule.id,
+        status,
+        metric: rule.metric,
+        value,
+        threshold: rule.threshold,
+        window_minutes: rule.windowMinutes,
+        service_name: rule.serviceName,
+        user_id: rule.userId,
+        summary: description.summary,
+        at: at.toISOString(),
+    };
+};
+
+export const sendWebhook = async (url, payload) => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+};
@@ -0,0 +1,57 @@
+// Spend budgets from the `budgets` table, scoped to a user, service or model over a
+// daily, weekly or monthly window (UTC; weeks start on Monday):
+//   { scope: 'service', match: 'Halo-OCR', period: 'monthly', amount: 250, mode: 'hard' }
+// A null `match` gives every user/service/model its own budget of that size.
+// `hard` budgets block requests once spent; `soft` budgets only flag them.
+export const BUDGET_SCOPES = ['user', 'service', 'model'];
+export const BUDGET_PERIODS = ['daily', 'weekly', 'monthly'];
+
+// The api_usage_logs column each scope is summed over
+export const BUDGET_SCOPE_COLUMNS = { user: 'user_id', service: 'service_name', model: 'model' };
+
+export const compileBudget = (row) => ({
+    id: row.id,
+    name: row.name || `${row.period} ${row.scope}:${row.match || '*'}`,
+    scope: row.scope,
+    match: row.match ? String(row.match) : null,
+    period: row.period,
+    amount: Number(row.amount || 0),
+    mode: row.mode === 'soft' ? 'soft' : 'hard',
+});
+
+export const getPeriodStart = (period, now = new Date()) => {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (period === 'weekly') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    if (period === 'monthly') start.setUTCDate(1);
+    return start;
+};
+
+export const getPeriodEnd = (period, now = new Date()) => {
+    const end = getPeriodStart(period, now);
+    if (period === 'daily') end.setUTCDate(end.getUTCDate() + 1);
+    if (period === 'weekly') end.setUTCDate(end.getUTCDate() + 7);
+    if (period === 'monthly') end.setUTCMonth(end.getUTCMonth() + 1);
+    return end;
+};
+
+const getScopeValue = (scope, { userId, serviceName, model }) => ({
+    user: userId,
+    service: serviceName,
+    model,
+})[scope];
+
+// The budgets that apply to a request, each with the spend bucket it draws on
+export const getApplicableBudgets = (budgets, context, now = new Date()) => budgets
+    .filter((budget) => BUDGET_SCOPES.includes(budget.scope) && BUDGET_PERIODS.includes(budget.period))
+    .map((budget) => ({ budget, value: getScopeValue(budget.scope, context) }))
+    .filter(({ budget, value }) => value && (!budget.match || budget.match === String(value)))
+    .map(({ budget, value }) => {
+        const periodStart = getPeriodStart(budget.period, now);
+        return {
+            budget,
+            value: String(value),
+            periodStart,
+            periodEnd: getPeriodEnd(budget.period, now),
+            bucket: `${budget.id}:${value}:${periodStart.toISOString()}`,
+        };
+    });
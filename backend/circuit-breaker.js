@@ -0,0 +1,151 @@
+// One circuit breaker per upstream host, so a provider that is down fails fast instead of
+// holding every request for the full timeout.
+//   closed    - requests flow; outcomes over the last `windowMs` are tracked
+//   open      - once at least `minRequests` in the window failed at `failureRate` or more, or
+//               ran slower than `slowCallMs` at `slowCallRate` or more; requests are refused
+//               for `openMs`
+//   half-open - after `openMs`, `halfOpenProbes` requests are let through to test the host.
+//               A successful probe closes the circuit; a failed one opens it again.
+// Failures are 5xx responses, network errors and timeouts. 429s mean a rate-limited key, not
+// a down host, so they count as successes here.
+export const CIRCUIT_STATES = ['closed', 'open', 'half_open'];
+
+export const isCircuitFailure = ({ status, error }) => Boolean(error) || (status >= 500 && status !== 501);
+
+export const createCircuitBreaker = ({
+    windowMs = 60 * 1000,
+    minRequests = 10,
+    failureRate = 50,
+    slowCallMs = 30 * 1000,
+    slowCallRate = 80,
+    openMs = 30 * 1000,
+    halfOpenProbes = 1,
+} = {}) => {
+    const circuits = new Map();
+
+    const getCircuit = (host) => {
+        if (!circuits.has(host)) {
+            circuits.set(host, {
+                state: 'closed',
+                calls: [],
+                failures: 0,
+                slowCalls: 0,
+                openedAt: null,
+                probesInFlight: 0,
+                lastProbeAt: 0,
+                lastFailure: null,
+            });
+        }
+        return circuits.get(host);
+    };
+
+    // Running counts keep each call O(1) however busy the host is
+    const prune = (circuit, now) => {
+        while (circuit.calls.length && circuit.calls[0].at <= now - windowMs) {
+            const call = circuit.calls.shift();
+            if (call.failed) circuit.failures -= 1;
+            if (call.slow) circuit.slowCalls -= 1;
+        }
+    };
+
+    const reset = (circuit) => {
+        circuit.calls = [];
+        circuit.failures = 0;
+        circuit.slowCalls = 0;
+    };
+
+    const rates = (circuit) => {
+        const total = circuit.calls.length;
+        if (!total) return { requests: 0, failureRate: 0, slowCallRate: 0 };
+        return {
+            requests: total,
+            failureRate: (circuit.failures / total) * 100,
+            slowCallRate: (circuit.slowCalls / total) * 100,
+        };
+    };
+
+    const open = (circuit, now) => {
+        circuit.state = 'open';
+        circuit.openedAt = now;
+        circuit.probesInFlight = 0;
+        reset(circuit);
+    };
+
+    return {
+        // Whether a request to `host` may go out now: { allowed, state, retryAfterMs }
+        check(host, now = Date.now()) {
+            const circuit = getCircuit(host);
+            if (circuit.state === 'open') {
+                const retryAfterMs = circuit.openedAt + openMs - now;
+                if (retryAfterMs > 0) return { allowed: false, state: 'open', retryAfterMs };
+                circuit.state = 'half_open';
+                circuit.probesInFlight = 0;
+            }
+            if (circuit.state === 'half_open') {
+                // A probe that never reported back (caller hung up) frees its slot after openMs
+                const probeStale = now - circuit.lastProbeAt >= openMs;
+                if (circuit.probesInFlight >= halfOpenProbes && !probeStale) {
+                    return { allowed: false, state: 'half_open', retryAfterMs: circuit.lastProbeAt + openMs - now };
+                }
+                circuit.probesInFlight = probeStale ? 1 : circuit.probesInFlight + 1;
+                circuit.lastProbeAt = now;
+                return { allowed: true, state: 'half_open', retryAfterMs: 0 };
+            }
+            return { allowed: true, state: 'closed', retryAfterMs: 0 };
+        },
+
+        // Records how an attempt to `host` went: `status` or `error`, and how long the
+        // response headers took. Returns { state, changed } for the circuit afterwards.
+        record(host, { status, error, latencyMs = 0 }, now = Date.now()) {
+            const circuit = getCircuit(host);
+            const previous = circuit.state;
+            const failed = isCircuitFailure({ status, error });
+            const slow = latencyMs >= slowCallMs;
+            if (failed) circuit.lastFailure = { at: now, reason: error ? (error.code || error.message) : `HTTP ${status}` };
+
+            if (circuit.state === 'half_open') {
+                circuit.probesInFlight = Math.max(circuit.probesInFlight - 1, 0);
+                if (failed || slow) open(circuit, now);
+                else {
+                    circuit.state = 'closed';
+                    circuit.openedAt = null;
+                    reset(circuit);
+                }
+                return { state: circuit.state, changed: circuit.state !== previous };
+            }
+            if (circuit.state === 'open') return { state: 'open', changed: false };
+
+            circuit.calls.push({ at: now, failed, slow });
+            if (failed) circuit.failures += 1;
+            if (slow) circuit.slowCalls += 1;
+            prune(circuit, now);
+            const current = rates(circuit);
+            if (current.requests >= minRequests
+                && (current.failureRate >= failureRate || current.slowCallRate >= slowCallRate)) {
+                open(circuit, now);
+            }
+            return { state: circuit.state, changed: circuit.state !== previous };
+        },
+
+        // Every host seen so far, for /api/health
+        snapshot(now = Date.now()) {
+            return [...circuits.entries()].map(([host, circuit]) => {
+                prune(circuit, now);
+                const current = rates(circuit);
+                const isOpen = circuit.state === 'open' && circuit.openedAt + openMs > now;
+                return {
+                    host,
+                    state: circuit.state === 'open' && !isOpen ? 'half_open' : circuit.state,
+                    requests: current.requests,
+                    failure_rate: parseFloat(current.failureRate.toFixed(1)),
+                    slow_call_rate: parseFloat(current.slowCallRate.toFixed(1)),
+                    opened_at: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+                    retry_at: isOpen ? new Date(circuit.openedAt + openMs).toISOString() : null,
+                    last_failure: circuit.lastFailure
+                        ? { at: new Date(circuit.lastFailure.at).toISOString(), reason: circuit.lastFailure.reason }
+                        : null,
+                };
+            });
+        },
+    };
+};
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { hostMatches } from './target-guard.js';
+
+// Provider credentials (OpenAI, Anthropic, ... API keys) are held by the gateway so client
+// apps never see them. Secrets are stored AES-256-GCM encrypted with CREDENTIAL_ENCRYPTION_KEY
+// (32 bytes, hex or base64) and only decrypted when a request is forwarded.
+const CIPHER = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Headers and query parameters callers use to send their own provider keys
+const CALLER_KEY_HEADERS = ['authorization', 'x-api-key', 'api-key', 'x-goog-api-key', 'openai-organization'];
+const CALLER_KEY_PARAMS = ['key', 'api_key'];
+
+export const loadVaultKey = (value) => {
+    if (!value) return null;
+    const trimmed = String(value).trim();
+    const key = /^[0-9a-f]{64}$/i.test(trimmed)
+        ? Buffer.from(trimmed, 'hex')
+        : Buffer.from(trimmed, 'base64');
+    if (key.length !== 32) throw new Error('CREDENTIAL_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)');
+    return key;
+};
+
+// Stored as `v1:<iv>:<auth tag>:<ciphertext>`, each part base64
+export const encryptSecret = (secret, key) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(String(secret), 'utf8'), cipher.final()]);
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+        .map((part) => (Buffer.isBuffer(part) ? part.toString('base64') : part))
+        .join(':');
+};
+
+export const decryptSecret = (payload, key) => {
+    const [version, iv, tag, ciphertext] = String(payload).split(':');
+    if (version !== FORMAT_VERSION || !ciphertext) throw new Error('Unrecognised encrypted secret format');
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// The last few characters, so admins can tell which key is in use without seeing it
+export const secretHint = (secret) => `…${String(secret).slice(-4)}`;
+
+// A credential for the caller's service beats a shared one; then the most specific host wins.
+// Every credential at the winning level forms the pool that requests are spread across.
+const hostSpecificity = (pattern) => (String(pattern).startsWith('*.') ? 0 : 1);
+
+const poolRank = (credential) => [
+    Number(Boolean(credential.service_name)),
+    hostSpecificity(credential.target_host),
+    String(credential.target_host).length,
+];
+
+const compareRanks = (a, b) => a.reduce((diff, value, i) => diff || (b[i] - value), 0);
+
+export const selectCredentialPool = (credentials, { host, serviceName }) => {
+    const candidates = credentials
+        .filter((credential) => hostMatches(host, credential.target_host))
+        .filter((credential) => !credential.service_name || credential.service_name === serviceName)
+        .map((credential) => ({ credential, rank: poolRank(credential) }))
+        .sort((a, b) => compareRanks(a.rank, b.rank));
+    if (!candidates.length) return [];
+    return candidates
+        .filter(({ rank }) => compareRanks(rank, candidates[0].rank) === 0)
+        .map(({ credential }) => credential);
+};
+
+// Smooth weighted round-robin (as in nginx): each pick adds every key's weight to its running
+// score, takes the highest, then docks it the pool total. `state` maps credential id -> score
+// and survives between requests.
+export const pickWeighted = (pool, state) => {
+    let total = 0;
+    let best = null;
+    pool.forEach((credential) => {
+        const weight = Math.max(Number(credential.weight) || 1, 0);
+        const entry = state.get(credential.id) || { score: 0, coolingUntil: 0 };
+        entry.score += weight;
+        total += weight;
+        state.set(credential.id, entry);
+        if (!best || entry.score > state.get(best.id).score) best = credential;
+    });
+    if (best) state.get(best.id).score -= total;
+    return best;
+};
+
+// `retry-after` is either seconds or an HTTP date; returns milliseconds, or null if absent
+export const parseRetryAfter = (value, now = Date.now()) => {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+    const date = new Date(value).getTime();
+    return Number.isNaN(date) ? null : Math.max(date - now, 0);
+};
+
+// The headers a credential is sent in: the row's override, else the provider's convention
+// for the target host (see getProviderAuth)
+export const buildCredentialHeaders = (credential, auth, secret) => {
+    const name = (credential.header_name || auth.header).toLowerCase();
+    const scheme = credential.header_name ? credential.header_scheme : auth.scheme;
+    const headers = { [name]: scheme ? `${scheme} ${secret}` : secret };
+    // e.g. OpenAI-Organization, so a key is billed to the organisation it belongs to
+    if (credential.organization && auth.organizationHeader) headers[auth.organizationHeader] = credential.organization;
+    return headers;
+};
+
+// Removes any provider key the caller sent, in headers or in the query string (Gemini `?key=`)
+export const stripCallerCredentials = (proxyReq) => {
+    CALLER_KEY_HEADERS.forEach((header) => proxyReq.removeHeader(header));
+
+    const [pathname, query] = proxyReq.path.split('?');
+    if (!query) return;
+    const params = new URLSearchParams(query);
+    CALLER_KEY_PARAMS.forEach((param) => params.delete(param));
+    const rest = params.toString();
+    proxyReq.path = rest ? `${pathname}?${rest}` : pathname;
+};
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+
+// Gateway keys authenticate callers and bind them to one service and one client (user_id).
+// Only a SHA-256 hash is stored; the plaintext key is shown once, when it is issued.
+const KEY_PREFIX = 'hk_';
+
+export const generateGatewayKey = () => `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+export const hashGatewayKey = (key) => crypto.createHash('sha256').update(String(key)).digest('hex');
+
+// A short, non-secret prefix so keys can be told apart in listings and logs
+export const displayPrefix = (key) => String(key).slice(0, KEY_PREFIX.length + 6);
+
+export const readGatewayKey = (req) => {
+    const key = req.headers['x-gateway-key'];
+    return typeof key === 'string' && key.startsWith(KEY_PREFIX) ? key.trim() : null;
+};
+
+export const isKeyActive = (record, now = Date.now()) => Boolean(record)
+    && record.active !== false
+    && !record.revoked_at
+    && (!record.expires_at || new Date(record.expires_at).getTime() > now);
@@ -0,0 +1,6 @@
+// Wildcard patterns used by the pricing, alias, cache and retry tables
+
+const escapeRegex = (value) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` matches any run of characters, e.g. '/v1/ocr/*' or '*.twilio.com'; case-insensitive
+export const globToRegex = (pattern) => new RegExp(`^${pattern.split('*').map(escapeRegex).join('.*')}$`, 'i');
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Write-behind queue for log rows, so a slow or unavailable database never loses a row or
+// holds up a response. Rows are appended to a local spool file as they are queued, then
+// inserted in batches of up to `batchSize` every `flushIntervalMs` (sooner once a full batch
+// is waiting). A failed batch stays queued and is retried with exponential backoff and full
+// jitter; on restart, rows still in the spool are replayed.
+//
+// The spool is append-only JSON lines: { id, at, row } per queued row and { ack: [ids] } per
+// inserted batch. It is rewritten with just the pending rows whenever the queue empties or
+// the acks outgrow them. Delivery is at-least-once: a crash between an insert and its ack
+// line replays that batch.
+//
+// Rows the database refuses outright (a missing column, a constraint) would block the queue
+// forever, so a refused batch is retried row by row and refused rows are moved to
+// `<spool>.rejected` for a manual replay.
+
+// Postgres data/constraint/schema errors and PostgREST's unknown-column error. Anything else
+// (network errors, timeouts, 5xx) is worth retrying.
+const isRejection = (error) => /^(22|23|42|PGRST204)/.test(String(error?.code || ''));
+
+export const createLogQueue = ({
+    insert,
+    spoolPath,
+    batchSize = 100,
+    flushIntervalMs = 1000,
+    baseDelayMs = 1000,
+    maxDelayMs = 60 * 1000,
+    label = 'log',
+}) => {
+    const pending = [];
+    let spoolLines = 0;
+    let flushing = null;
+    let timer = null;
+    let failures = 0;
+    let retryAt = 0;
+    let lastFlushAt = null;
+    let rejected = 0;
+
+    // Spool writes run one at a time, in the order they were queued
+    let spoolChain = Promise.resolve();
+    const spool = (write) => {
+        spoolChain = spoolChain.then(write).catch((err) => console.error(`❌ ${label} spool write failed:`, err.message));
+        return spoolChain;
+    };
+    const toLine = (value) => `${JSON.stringify(value)}\n`;
+
+    const rewriteSpool = async () => {
+        // Rows whose append is still queued will be written after this rewrite
+        const spooled = pending.filter((entry) => entry.spooled);
+        const temp = `${spoolPath}.${process.pid}.tmp`;
+        await fs.writeFile(temp, spooled.map(({ id, at, row }) => toLine({ id, at, row })).join(''));
+        await fs.rename(temp, spoolPath);
+        spoolLines = spooled.length;
+    };
+    const compact = () => spool(rewriteSpool);
+
+    const replay = async () => {
+        await fs.mkdir(path.dirname(spoolPath), { recursive: true });
+        let contents = '';
+        try {
+            contents = await fs.readFile(spoolPath, 'utf8');
+        } catch (err) {
+            if (err.code !== 'ENOENT') throw err;
+        }
+        const entries = new Map();
+        contents.split('\n').forEach((line) => {
+            if (!line.trim()) return;
+            try {
+                const record = JSON.parse(line);
+                if (record.ack) record.ack.forEach((id) => entries.delete(id));
+                else entries.set(record.id, { ...record, spooled: true });
+            } catch {
+                // A line cut short by a crash; the rows before it are intact
+            }
+        });
+        if (entries.size) {
+            pending.unshift(...entries.values());
+            console.log(`📼 Replaying ${entries.size} ${label} row(s) from ${spoolPath}`);
+        }
+    };
+    // The spool is only rewritten once it has been read back in full
+    const ready = spool(async () => {
+        await replay();
+        await rewriteSpool();
+    });
+
+    const settle = (entries) => {
+        const ids = new Set(entries.map((entry) => entry.id));
+        for (let i = pending.length - 1; i >= 0; i -= 1) {
+            if (ids.has(pending[i].id)) pending.splice(i, 1);
+        }
+        if (ids.size) {
+            spool(() => fs.appendFile(spoolPath, toLine({ ack: [...ids] })));
+            spoolLines += 1;
+        }
+    };
+
+    const insertEach = async (batch) => {
+        const refused = [];
+        let done = 0;
+        try {
+            for (const entry of batch) {
+                try {
+                    await insert([entry.row]);
+                } catch (err) {
+                    if (!isRejection(err)) throw err;
+                    refused.push({ ...entry, error: err.message });
+                }
+                done += 1;
+            }
+        } finally {
+            if (refused.length) {
+                rejected += refused.length;
+                console.error(`❌ ${refused.length} ${label} row(s) rejected (${refused[0].error}); kept in ${spoolPath}.rejected`);
+                await spool(() => fs.appendFile(`${spoolPath}.rejected`, refused.map(({ id, at, row, error }) => toLine({ id, at, row, error })).join('')));
+            }
+            settle(batch.slice(0, done));
+        }
+    };
+
+    const flushBatch = async () => {
+        const batch = pending.slice(0, batchSize);
+        try {
+            await insert(batch.map((entry) => entry.row));
+        } catch (err) {
+            if (!isRejection(err)) throw err;
+            return insertEach(batch);
+        }
+        return settle(batch);
+    };
+
+    const flush = () => {
+        if (flushing) return flushing;
+        flushing = (async () => {
+            await ready;
+            while (pending.length && Date.now() >= retryAt) {
+                try {
+                    await flushBatch();
+                    if (failures) console.log(`✅ ${label} queue recovered after ${failures} failed flush(es)`);
+                    failures = 0;
+                    retryAt = 0;
+                    lastFlushAt = Date.now();
+                } catch (err) {
+                    failures += 1;
+                    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (failures - 1));
+                    retryAt = Date.now() + Math.round(Math.random() * ceiling);
+                    console.error(`❌ ${label} flush failed (${pending.length} pending, retry ${failures}):`, err.message);
+                }
+            }
+            if (!pending.length || spoolLines > pending.length * 2 + batchSize) await compact();
+        })().finally(() => {
+            flushing = null;
+        });
+        return flushing;
+    };
+
+    return {
+        ready,
+
+        enqueue(row) {
+            const entry = { id: crypto.randomUUID(), at: Date.now(), row, spooled: false };
+            pending.push(entry);
+            spool(async () => {
+                await fs.appendFile(spoolPath, toLine({ id: entry.id, at: entry.at, row }));
+                entry.spooled = true;
+                spoolLines += 1;
+            });
+            if (pending.length >= batchSize) flush();
+        },
+
+        flush,
+
+        start() {
+            if (!timer) {
+                timer = setInterval(flush, flushIntervalMs);
+                timer.unref();
+            }
+            return flush();
+        },
+
+        // Flushes until the queue is empty or `timeoutMs` has passed, ignoring the backoff.
+        // Whatever is left stays in the spool for the next start.
+        async drain(timeoutMs) {
+            clearInterval(timer);
+            timer = null;
+            const deadline = Date.now() + timeoutMs;
+            while (pending.length && Date.now() < deadline) {
+                retryAt = 0;
+                await flush();
+                if (pending.length) await new Promise((resolve) => setTimeout(resolve, Math.min(baseDelayMs, Math.max(deadline - Date.now(), 0))));
+            }
+            await spoolChain;
+            return pending.length;
+        },
+
+        stats(now = Date.now()) {
+            return {
+                depth: pending.length,
+                // Replayed rows go to the front, so the queue stays oldest first
+                oldest_pending_age_ms: pending.length ? now - pending[0].at : 0,
+                consecutive_failures: failures,
+                next_retry_at: retryAt > now ? new Date(retryAt).toISOString() : null,
+                // The error itself is only logged: /api/health is public
+                failing: failures > 0,
+                last_flush_at: lastFlushAt ? new Date(lastFlushAt).toISOString() : null,
+                rejected,
+            };
+        },
+    };
+};
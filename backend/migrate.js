@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import dotenv from 'dotenv';
+import pg from 'pg';
+
+// Applies the SQL files in migrations/ that haven't run yet, in file name order, each in its
+// own transaction. Applied files are recorded in schema_migrations. Works against a local
+// Postgres or a Supabase database (use its direct connection string):
+//   DATABASE_URL=postgres://localhost/halo npm run migrate
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const envFile = process.env.NODE_ENV === 'production' ? '.env.production' : '.env.local';
+dotenv.config({ path: path.join(__dirname, envFile) });
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+const migrate = async () => {
+    if (!process.env.DATABASE_URL) throw new Error('Set DATABASE_URL to the database to migrate');
+    const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+    await client.connect();
+    try {
+        await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+            name text PRIMARY KEY,
+            applied_at timestamptz NOT NULL DEFAULT now()
+        )`);
+        const { rows } = await client.query('SELECT name FROM schema_migrations');
+        const applied = new Set(rows.map((row) => row.name));
+        const files = (await fs.readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql')).sort();
+
+        const pending = files.filter((file) => !applied.has(file));
+        for (const file of pending) {
+            const sql = await fs.readFile(path.join(MIGRATIONS_DIR, file), 'utf8');
+            try {
+                await client.query('BEGIN');
+                await client.query(sql);
+                await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+                await client.query('COMMIT');
+                console.log(`✅ Applied ${file}`);
+            } catch (err) {
+                await client.query('ROLLBACK');
+                throw new Error(`${file}: ${err.message}`);
+            }
+        }
+        console.log(pending.length ? `🗄️  ${pending.length} migration(s) applied` : '🗄️  Database is up to date');
+    } finally {
+        await client.end();
+    }
+};
+
+migrate().catch((err) => {
+    console.error('❌ MIGRATION FAILED:', err.message);
+    process.exit(1);
+});
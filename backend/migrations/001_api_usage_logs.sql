@@ -0,0 +1,53 @@
+-- One row per proxied request, retry attempt or request answered by the gateway itself.
+-- Written so it also brings an existing Supabase table (built from the README snippets) up
+-- to date: every column is added only if it is missing.
+
+CREATE TABLE IF NOT EXISTS api_usage_logs (
+    id bigserial PRIMARY KEY,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Caller
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS user_id text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS service_name text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS gateway_key_id bigint;
+
+-- Request and outcome
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS endpoint text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS status_code integer;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS outcome text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS latency_ms integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS request_id uuid;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS parent_request_id uuid;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS attempt integer;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS attempt_reason text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS rate_limit_id bigint;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS over_budget_id bigint;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS provider_credential_id bigint;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS provider_organization text;
+
+-- Model and usage
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS model text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS raw_model text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS pricing_tier text DEFAULT 'standard';
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS category text DEFAULT 'text';
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS input_tokens integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS output_tokens integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS cache_write_tokens integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS cache_read_tokens integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS reasoning_tokens integer DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS units numeric DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS unit_variant text;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS tool_calls jsonb DEFAULT '{}';
+
+-- Cost
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS pricing_rule_id bigint;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS estimated_cost numeric DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS reasoning_cost numeric DEFAULT 0;
+ALTER TABLE api_usage_logs ADD COLUMN IF NOT EXISTS cost_avoided numeric;
+
+-- The dashboard, budgets and alerts all read recent rows, usually for one service or user
+CREATE INDEX IF NOT EXISTS api_usage_logs_created_at_idx ON api_usage_logs (created_at);
+CREATE INDEX IF NOT EXISTS api_usage_logs_service_created_at_idx ON api_usage_logs (service_name, created_at);
+CREATE INDEX IF NOT EXISTS api_usage_logs_user_created_at_idx ON api_usage_logs (user_id, created_at);
+CREATE INDEX IF NOT EXISTS api_usage_logs_parent_request_id_idx ON api_usage_logs (parent_request_id);
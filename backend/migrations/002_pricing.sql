@@ -0,0 +1,42 @@
+-- Prices per model (model_pricing), prices for non-LLM APIs (pricing_rules) and model name
+-- aliases (model_aliases). Like 001, safe to run against an existing Supabase schema.
+
+CREATE TABLE IF NOT EXISTS model_pricing (
+    id bigserial PRIMARY KEY,
+    model text NOT NULL,
+    tier text NOT NULL DEFAULT 'standard',
+    category text NOT NULL DEFAULT 'text',
+    input_per_million numeric DEFAULT 0,
+    output_per_million numeric DEFAULT 0,
+    cached_input_per_million numeric
+);
+
+-- Empty means: the input rate for cache writes, the output rate for reasoning tokens
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS cache_write_per_million numeric;
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS reasoning_per_million numeric;
+-- Per-unit pricing for images, audio, speech and tool calls; `variant` is e.g. the image size
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS variant text;
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS unit_price numeric;
+-- Dated prices; empty means "since forever" and "still current"
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS effective_from timestamptz;
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS effective_to timestamptz;
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    id bigserial PRIMARY KEY,
+    name text NOT NULL,
+    target_host text,
+    method text,
+    path_pattern text,
+    flat_fee numeric DEFAULT 0,
+    unit_field text,
+    unit_price numeric DEFAULT 0,
+    tiers jsonb,
+    priority integer DEFAULT 0,
+    active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS model_aliases (
+    alias text PRIMARY KEY,
+    canonical_model text NOT NULL,
+    pricing_model text
+);
@@ -0,0 +1,143 @@
+-- Dashboard aggregates computed in the database, so /api/usage and /api/services no longer
+-- download every api_usage_logs row. Both are plain SQL functions: Supabase exposes them as
+-- RPCs, and on Postgres they are called with SELECT.
+
+-- Per UTC day: requests, cost, output and reasoning tokens, reasoning cost
+CREATE OR REPLACE FUNCTION usage_daily()
+RETURNS TABLE (
+    day date,
+    daily_hits bigint,
+    daily_cost numeric,
+    daily_output_tokens bigint,
+    daily_reasoning_tokens bigint,
+    daily_reasoning_cost numeric
+)
+LANGUAGE sql STABLE AS $$
+    SELECT (created_at AT TIME ZONE 'UTC')::date AS day,
+           count(*),
+           COALESCE(sum(estimated_cost), 0),
+           COALESCE(sum(output_tokens), 0)::bigint,
+           COALESCE(sum(reasoning_tokens), 0)::bigint,
+           COALESCE(sum(reasoning_cost), 0)
+    FROM api_usage_logs
+    GROUP BY 1
+    ORDER BY 1;
+$$;
+
+-- Per service, endpoint and user, busiest first, one page at a time. Requests refused by the
+-- gateway (throttled, over budget) are only counted, not treated as hits.
+--
+-- Rows stored with no cost are re-priced by the gateway at the rates in effect when they were
+-- logged. Those rates live in the gateway's pricing cache (aliases, dated prices), so each
+-- group returns `unpriced`: the token and unit totals of its zero-cost rows per model, tier,
+-- category, variant and UTC day, which the gateway prices and adds to `stored_cost`.
+CREATE OR REPLACE FUNCTION usage_by_service(p_offset integer DEFAULT 0, p_limit integer DEFAULT 500)
+RETURNS TABLE (
+    service_name text,
+    endpoint text,
+    user_id text,
+    total_hits bigint,
+    success_count bigint,
+    total_latency bigint,
+    last_used timestamptz,
+    stored_cost numeric,
+    retry_attempts bigint,
+    retry_stored_cost numeric,
+    total_input_tokens bigint,
+    total_output_tokens bigint,
+    total_cache_write_tokens bigint,
+    total_cache_read_tokens bigint,
+    total_reasoning_tokens bigint,
+    reasoning_cost numeric,
+    throttled_count bigint,
+    budget_blocked_count bigint,
+    cache_hits bigint,
+    cost_avoided numeric,
+    unpriced jsonb
+)
+LANGUAGE sql STABLE AS $$
+    WITH logs AS (
+        SELECT COALESCE(NULLIF(l.service_name, ''), 'Unknown Service') AS svc,
+               COALESCE(NULLIF(l.endpoint, ''), '/') AS ep,
+               COALESCE(NULLIF(l.user_id, ''), 'Unknown') AS uid,
+               l.outcome IS DISTINCT FROM 'throttled' AND l.outcome IS DISTINCT FROM 'budget_blocked' AS counted,
+               l.*
+        FROM api_usage_logs l
+    ),
+    groups AS (
+        SELECT svc, ep, uid,
+               count(*) FILTER (WHERE counted) AS total_hits,
+               count(*) FILTER (WHERE counted AND status_code >= 200 AND status_code < 300) AS success_count,
+               COALESCE(sum(latency_ms) FILTER (WHERE counted), 0)::bigint AS total_latency,
+               max(created_at) AS last_used,
+               COALESCE(sum(estimated_cost) FILTER (WHERE counted AND estimated_cost > 0), 0) AS stored_cost,
+               count(*) FILTER (WHERE counted AND parent_request_id IS NOT NULL) AS retry_attempts,
+               COALESCE(sum(estimated_cost) FILTER (WHERE counted AND parent_request_id IS NOT NULL AND estimated_cost > 0), 0) AS retry_stored_cost,
+               COALESCE(sum(input_tokens) FILTER (WHERE counted), 0)::bigint AS total_input_tokens,
+               COALESCE(sum(output_tokens) FILTER (WHERE counted), 0)::bigint AS total_output_tokens,
+               COALESCE(sum(cache_write_tokens) FILTER (WHERE counted), 0)::bigint AS total_cache_write_tokens,
+               COALESCE(sum(cache_read_tokens) FILTER (WHERE counted), 0)::bigint AS total_cache_read_tokens,
+               COALESCE(sum(reasoning_tokens) FILTER (WHERE counted), 0)::bigint AS total_reasoning_tokens,
+               COALESCE(sum(reasoning_cost) FILTER (WHERE counted), 0) AS reasoning_cost,
+               count(*) FILTER (WHERE outcome = 'throttled') AS throttled_count,
+               count(*) FILTER (WHERE outcome = 'budget_blocked') AS budget_blocked_count,
+               count(*) FILTER (WHERE outcome = 'cache_hit') AS cache_hits,
+               COALESCE(sum(cost_avoided) FILTER (WHERE outcome = 'cache_hit'), 0) AS cost_avoided
+        FROM logs
+        GROUP BY svc, ep, uid
+    ),
+    page AS (
+        SELECT * FROM groups
+        -- Ties are broken by name so pages don't shift between polls
+        ORDER BY total_hits DESC, last_used DESC, svc, ep, uid
+        OFFSET p_offset
+        LIMIT p_limit
+    ),
+    unpriced AS (
+        SELECT svc, ep, uid,
+               jsonb_agg(jsonb_build_object(
+                   'model', model,
+                   'pricing_tier', pricing_tier,
+                   'category', category,
+                   'unit_variant', unit_variant,
+                   'created_at', created_at,
+                   'retry', retry,
+                   'input_tokens', input_tokens,
+                   'output_tokens', output_tokens,
+                   'cache_write_tokens', cache_write_tokens,
+                   'cache_read_tokens', cache_read_tokens,
+                   'reasoning_tokens', reasoning_tokens,
+                   'units', units,
+                   'tool_calls', tool_calls
+               )) AS unpriced
+        FROM (
+            SELECT svc, ep, uid, model, pricing_tier, category, unit_variant,
+                   parent_request_id IS NOT NULL AS retry,
+                   max(created_at) AS created_at,
+                   COALESCE(sum(input_tokens), 0) AS input_tokens,
+                   COALESCE(sum(output_tokens), 0) AS output_tokens,
+                   COALESCE(sum(cache_write_tokens), 0) AS cache_write_tokens,
+                   COALESCE(sum(cache_read_tokens), 0) AS cache_read_tokens,
+                   COALESCE(sum(reasoning_tokens), 0) AS reasoning_tokens,
+                   COALESCE(sum(units), 0) AS units,
+                   -- One object per row with tool calls; the gateway adds them up
+                   jsonb_agg(tool_calls) FILTER (WHERE tool_calls IS NOT NULL AND tool_calls <> '{}'::jsonb) AS tool_calls
+            FROM logs
+            WHERE counted
+              AND COALESCE(estimated_cost, 0) <= 0
+              AND (svc, ep, uid) IN (SELECT svc, ep, uid FROM page)
+            GROUP BY svc, ep, uid, model, pricing_tier, category, unit_variant, retry, (created_at AT TIME ZONE 'UTC')::date
+        ) buckets
+        GROUP BY svc, ep, uid
+    )
+    SELECT page.svc, page.ep, page.uid,
+           page.total_hits, page.success_count, page.total_latency, page.last_used,
+           page.stored_cost, page.retry_attempts, page.retry_stored_cost,
+           page.total_input_tokens, page.total_output_tokens, page.total_cache_write_tokens,
+           page.total_cache_read_tokens, page.total_reasoning_tokens, page.reasoning_cost,
+           page.throttled_count, page.budget_blocked_count, page.cache_hits, page.cost_avoided,
+           COALESCE(unpriced.unpriced, '[]'::jsonb)
+    FROM page
+    LEFT JOIN unpriced USING (svc, ep, uid)
+    ORDER BY page.total_hits DESC, page.last_used DESC, page.svc, page.ep, page.uid;
+$$;
@@ -0,0 +1,177 @@
+-- Filters for the dashboard aggregates from 003: a created_at range (`p_to` excluded), exact
+-- matches on service, user, model and endpoint as logged, and a status code range. Every filter
+-- defaults to NULL, meaning "don't filter". The argument lists change, so the old functions are
+-- dropped rather than overloaded.
+
+DROP FUNCTION IF EXISTS usage_daily();
+DROP FUNCTION IF EXISTS usage_by_service(integer, integer);
+
+CREATE FUNCTION usage_daily(
+    p_from timestamptz DEFAULT NULL,
+    p_to timestamptz DEFAULT NULL,
+    p_service_name text DEFAULT NULL,
+    p_user_id text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_status_min integer DEFAULT NULL,
+    p_status_max integer DEFAULT NULL,
+    p_endpoint text DEFAULT NULL
+)
+RETURNS TABLE (
+    day date,
+    daily_hits bigint,
+    daily_cost numeric,
+    daily_output_tokens bigint,
+    daily_reasoning_tokens bigint,
+    daily_reasoning_cost numeric
+)
+LANGUAGE sql STABLE AS $$
+    SELECT (created_at AT TIME ZONE 'UTC')::date AS day,
+           count(*),
+           COALESCE(sum(estimated_cost), 0),
+           COALESCE(sum(output_tokens), 0)::bigint,
+           COALESCE(sum(reasoning_tokens), 0)::bigint,
+           COALESCE(sum(reasoning_cost), 0)
+    FROM api_usage_logs
+    WHERE (p_from IS NULL OR created_at >= p_from)
+      AND (p_to IS NULL OR created_at < p_to)
+      AND (p_service_name IS NULL OR service_name = p_service_name)
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (p_model IS NULL OR model = p_model)
+      AND (p_status_min IS NULL OR status_code >= p_status_min)
+      AND (p_status_max IS NULL OR status_code <= p_status_max)
+      AND (p_endpoint IS NULL OR endpoint = p_endpoint)
+    GROUP BY 1
+    ORDER BY 1;
+$$;
+
+-- Rows outside the filters are left out before grouping, so totals, pages and unpriced buckets
+-- all cover the same rows
+CREATE FUNCTION usage_by_service(
+    p_offset integer DEFAULT 0,
+    p_limit integer DEFAULT 500,
+    p_from timestamptz DEFAULT NULL,
+    p_to timestamptz DEFAULT NULL,
+    p_service_name text DEFAULT NULL,
+    p_user_id text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_status_min integer DEFAULT NULL,
+    p_status_max integer DEFAULT NULL,
+    p_endpoint text DEFAULT NULL
+)
+RETURNS TABLE (
+    service_name text,
+    endpoint text,
+    user_id text,
+    total_hits bigint,
+    success_count bigint,
+    total_latency bigint,
+    last_used timestamptz,
+    stored_cost numeric,
+    retry_attempts bigint,
+    retry_stored_cost numeric,
+    total_input_tokens bigint,
+    total_output_tokens bigint,
+    total_cache_write_tokens bigint,
+    total_cache_read_tokens bigint,
+    total_reasoning_tokens bigint,
+    reasoning_cost numeric,
+    throttled_count bigint,
+    budget_blocked_count bigint,
+    cache_hits bigint,
+    cost_avoided numeric,
+    unpriced jsonb
+)
+LANGUAGE sql STABLE AS $$
+    WITH logs AS (
+        SELECT COALESCE(NULLIF(l.service_name, ''), 'Unknown Service') AS svc,
+               COALESCE(NULLIF(l.endpoint, ''), '/') AS ep,
+               COALESCE(NULLIF(l.user_id, ''), 'Unknown') AS uid,
+               l.outcome IS DISTINCT FROM 'throttled' AND l.outcome IS DISTINCT FROM 'budget_blocked' AS counted,
+               l.*
+        FROM api_usage_logs l
+        WHERE (p_from IS NULL OR l.created_at >= p_from)
+          AND (p_to IS NULL OR l.created_at < p_to)
+          AND (p_service_name IS NULL OR l.service_name = p_service_name)
+          AND (p_user_id IS NULL OR l.user_id = p_user_id)
+          AND (p_model IS NULL OR l.model = p_model)
+          AND (p_status_min IS NULL OR l.status_code >= p_status_min)
+          AND (p_status_max IS NULL OR l.status_code <= p_status_max)
+          AND (p_endpoint IS NULL OR l.endpoint = p_endpoint)
+    ),
+    groups AS (
+        SELECT svc, ep, uid,
+               count(*) FILTER (WHERE counted) AS total_hits,
+               count(*) FILTER (WHERE counted AND status_code >= 200 AND status_code < 300) AS success_count,
+               COALESCE(sum(latency_ms) FILTER (WHERE counted), 0)::bigint AS total_latency,
+               max(created_at) AS last_used,
+               COALESCE(sum(estimated_cost) FILTER (WHERE counted AND estimated_cost > 0), 0) AS stored_cost,
+               count(*) FILTER (WHERE counted AND parent_request_id IS NOT NULL) AS retry_attempts,
+               COALESCE(sum(estimated_cost) FILTER (WHERE counted AND parent_request_id IS NOT NULL AND estimated_cost > 0), 0) AS retry_stored_cost,
+               COALESCE(sum(input_tokens) FILTER (WHERE counted), 0)::bigint AS total_input_tokens,
+               COALESCE(sum(output_tokens) FILTER (WHERE counted), 0)::bigint AS total_output_tokens,
+               COALESCE(sum(cache_write_tokens) FILTER (WHERE counted), 0)::bigint AS total_cache_write_tokens,
+               COALESCE(sum(cache_read_tokens) FILTER (WHERE counted), 0)::bigint AS total_cache_read_tokens,
+               COALESCE(sum(reasoning_tokens) FILTER (WHERE counted), 0)::bigint AS total_reasoning_tokens,
+               COALESCE(sum(reasoning_cost) FILTER (WHERE counted), 0) AS reasoning_cost,
+               count(*) FILTER (WHERE outcome = 'throttled') AS throttled_count,
+               count(*) FILTER (WHERE outcome = 'budget_blocked') AS budget_blocked_count,
+               count(*) FILTER (WHERE outcome = 'cache_hit') AS cache_hits,
+               COALESCE(sum(cost_avoided) FILTER (WHERE outcome = 'cache_hit'), 0) AS cost_avoided
+        FROM logs
+        GROUP BY svc, ep, uid
+    ),
+    page AS (
+        SELECT * FROM groups
+        -- Ties are broken by name so pages don't shift between polls
+        ORDER BY total_hits DESC, last_used DESC, svc, ep, uid
+        OFFSET p_offset
+        LIMIT p_limit
+    ),
+    unpriced AS (
+        SELECT svc, ep, uid,
+               jsonb_agg(jsonb_build_object(
+                   'model', model,
+                   'pricing_tier', pricing_tier,
+                   'category', category,
+                   'unit_variant', unit_variant,
+                   'created_at', created_at,
+                   'retry', retry,
+                   'input_tokens', input_tokens,
+                   'output_tokens', output_tokens,
+                   'cache_write_tokens', cache_write_tokens,
+                   'cache_read_tokens', cache_read_tokens,
+                   'reasoning_tokens', reasoning_tokens,
+                   'units', units,
+                   'tool_calls', tool_calls
+               )) AS unpriced
+        FROM (
+            SELECT svc, ep, uid, model, pricing_tier, category, unit_variant,
+                   parent_request_id IS NOT NULL AS retry,
+                   max(created_at) AS created_at,
+                   COALESCE(sum(input_tokens), 0) AS input_tokens,
+                   COALESCE(sum(output_tokens), 0) AS output_tokens,
+                   COALESCE(sum(cache_write_tokens), 0) AS cache_write_tokens,
+                   COALESCE(sum(cache_read_tokens), 0) AS cache_read_tokens,
+                   COALESCE(sum(reasoning_tokens), 0) AS reasoning_tokens,
+                   COALESCE(sum(units), 0) AS units,
+                   -- One object per row with tool calls; the gateway adds them up
+                   jsonb_agg(tool_calls) FILTER (WHERE tool_calls IS NOT NULL AND tool_calls <> '{}'::jsonb) AS tool_calls
+            FROM logs
+            WHERE counted
+              AND COALESCE(estimated_cost, 0) <= 0
+              AND (svc, ep, uid) IN (SELECT svc, ep, uid FROM page)
+            GROUP BY svc, ep, uid, model, pricing_tier, category, unit_variant, retry, (created_at AT TIME ZONE 'UTC')::date
+        ) buckets
+        GROUP BY svc, ep, uid
+    )
+    SELECT page.svc, page.ep, page.uid,
+           page.total_hits, page.success_count, page.total_latency, page.last_used,
+           page.stored_cost, page.retry_attempts, page.retry_stored_cost,
+           page.total_input_tokens, page.total_output_tokens, page.total_cache_write_tokens,
+           page.total_cache_read_tokens, page.total_reasoning_tokens, page.reasoning_cost,
+           page.throttled_count, page.budget_blocked_count, page.cache_hits, page.cost_avoided,
+           COALESCE(unpriced.unpriced, '[]'::jsonb)
+    FROM page
+    LEFT JOIN unpriced USING (svc, ep, uid)
+    ORDER BY page.total_hits DESC, page.last_used DESC, page.svc, page.ep, page.uid;
+$$;
@@ -0,0 +1,15 @@
+-- Units a tiered pricing rule has billed since the start of its period, summed in the database
+-- so volumes past PostgREST's row limit still move prices into the next tier.
+
+CREATE INDEX IF NOT EXISTS api_usage_logs_pricing_rule_created_at_idx
+    ON api_usage_logs (pricing_rule_id, created_at)
+    WHERE pricing_rule_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION pricing_rule_volume(p_rule_id bigint, p_since timestamptz)
+RETURNS numeric
+LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(sum(units), 0)
+    FROM api_usage_logs
+    WHERE pricing_rule_id = p_rule_id
+      AND created_at >= p_since;
+$$;
@@ -0,0 +1,38 @@
+-- Requests per model, tier, category and UTC day, for the unpriced models report. Each model
+-- comes back as one row with its days in a jsonb array, so the report is never cut short by
+-- PostgREST's row limit. Whether a day is priced depends on the gateway's pricing cache
+-- (aliases, dated prices), so that check stays in the gateway.
+CREATE OR REPLACE FUNCTION model_usage_by_day(p_skip_outcomes text[] DEFAULT '{}')
+RETURNS TABLE (
+    model text,
+    tier text,
+    category text,
+    days jsonb
+)
+LANGUAGE sql STABLE AS $$
+    WITH days AS (
+        SELECT COALESCE(NULLIF(l.model, ''), 'unknown') AS model,
+               COALESCE(NULLIF(l.pricing_tier, ''), 'standard') AS tier,
+               COALESCE(NULLIF(l.category, ''), 'text') AS category,
+               (l.created_at AT TIME ZONE 'UTC')::date AS day,
+               count(*) AS hits,
+               min(l.created_at) AS first_seen,
+               max(l.created_at) AS last_seen,
+               COALESCE(jsonb_agg(DISTINCT l.raw_model) FILTER (WHERE l.raw_model IS NOT NULL), '[]'::jsonb) AS raw_models
+        FROM api_usage_logs l
+        -- Rule-priced rows and requests that never reached a provider are never model-priced
+        WHERE l.pricing_rule_id IS NULL
+          AND (l.outcome IS NULL OR NOT l.outcome = ANY (p_skip_outcomes))
+        GROUP BY 1, 2, 3, 4
+    )
+    SELECT days.model, days.tier, days.category,
+           jsonb_agg(jsonb_build_object(
+               'day', days.day,
+               'hits', days.hits,
+               'first_seen', days.first_seen,
+               'last_seen', days.last_seen,
+               'raw_models', days.raw_models
+           ) ORDER BY days.day)
+    FROM days
+    GROUP BY days.model, days.tier, days.category;
+$$;
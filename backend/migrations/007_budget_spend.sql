@@ -0,0 +1,16 @@
+-- Cost a budget's user, service or model has run up since the start of its period, summed in
+-- the database so spend past PostgREST's row limit still counts toward the budget.
+-- p_scope_column is the api_usage_logs column the budget's scope matches on.
+
+CREATE OR REPLACE FUNCTION budget_spend(p_scope_column text, p_value text, p_since timestamptz)
+RETURNS numeric
+LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(sum(estimated_cost), 0)
+    FROM api_usage_logs
+    WHERE created_at >= p_since
+      AND CASE p_scope_column
+              WHEN 'user_id' THEN user_id
+              WHEN 'service_name' THEN service_name
+              WHEN 'model' THEN model
+          END = p_value;
+$$;
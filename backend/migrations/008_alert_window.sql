@@ -0,0 +1,38 @@
+-- Totals for one alert rule's window, so alerts see every row in it rather than the first
+-- page PostgREST returns. Requests answered by the gateway itself (p_skip_outcomes: throttled,
+-- budget-blocked) count toward spend and tokens but not toward requests, errors or latency.
+-- p95_latency is the nearest-rank 95th percentile.
+CREATE OR REPLACE FUNCTION alert_window_stats(
+    p_since timestamptz,
+    p_service_name text DEFAULT NULL,
+    p_user_id text DEFAULT NULL,
+    p_skip_outcomes text[] DEFAULT '{}'
+)
+RETURNS TABLE (
+    requests bigint,
+    errors bigint,
+    spend numeric,
+    tokens numeric,
+    p95_latency integer
+)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        count(*) FILTER (WHERE NOT counted_out),
+        count(*) FILTER (WHERE NOT counted_out AND status_code >= 400),
+        COALESCE(sum(estimated_cost), 0),
+        COALESCE(sum(
+            COALESCE(input_tokens, 0) + COALESCE(output_tokens, 0) + COALESCE(cache_write_tokens, 0)
+            + COALESCE(cache_read_tokens, 0) + COALESCE(reasoning_tokens, 0)
+        ), 0),
+        COALESCE(
+            percentile_disc(0.95) WITHIN GROUP (ORDER BY COALESCE(latency_ms, 0)) FILTER (WHERE NOT counted_out),
+            0
+        )
+    FROM (
+        SELECT *, COALESCE(outcome, '') = ANY(p_skip_outcomes) AS counted_out
+        FROM api_usage_logs
+        WHERE created_at >= p_since
+          AND (p_service_name IS NULL OR service_name = p_service_name)
+          AND (p_user_id IS NULL OR user_id = p_user_id)
+    ) window_rows;
+$$;
@@ -0,0 +1,92 @@
+import { globToRegex } from './glob.js';
+
+// Maps the many spellings of a model onto one canonical name and its pricing keys.
+//
+// Built-in rules handle provider formats:
+//   models/gemini-2.5-pro                                  -> gemini-2.5-pro
+//   arn:aws:bedrock:...:inference-profile/us.anthropic.claude-3-5-sonnet-20241022-v2:0
+//                                                          -> claude-3-5-sonnet-20241022
+//   ft:gpt-4o-mini-2024-07-18:org::abc                     -> priced as ft:gpt-4o-mini-2024-07-18,
+//                                                             then gpt-4o-mini-2024-07-18
+// Anything else (Azure deployment names, vendor nicknames) comes from the `model_aliases`
+// table: { alias, canonical_model, pricing_model }. `alias` may use `*` as a wildcard.
+
+export const compileModelAliases = (rows = []) => {
+    const exact = new Map();
+    const patterns = [];
+    rows.forEach((row) => {
+        const alias = String(row.alias || '').trim().toLowerCase();
+        if (!alias || !row.canonical_model) return;
+        const target = {
+            model: String(row.canonical_model),
+            pricingModel: row.pricing_model ? String(row.pricing_model) : null,
+        };
+        if (alias.includes('*')) {
+            patterns.push({ pattern: globToRegex(alias), target });
+        } else {
+            exact.set(alias, target);
+        }
+    });
+    return { exact, patterns };
+};
+
+const lookupAlias = (aliases, name) => {
+    if (!aliases) return null;
+    if (aliases.exact.has(name)) return aliases.exact.get(name);
+    const match = aliases.patterns.find(({ pattern }) => pattern.test(name));
+    return match ? match.target : null;
+};
+
+// Bedrock model IDs: optional ARN, optional cross-region prefix, vendor prefix, version suffix
+const BEDROCK_ARN = /^arn:aws[\w-]*:bedrock:[^:]*:[^:]*:(?:foundation-model|inference-profile|application-inference-profile|provisioned-model)\/(.+)$/i;
+const BEDROCK_ID = /^(?:(?:us|eu|apac|us-gov|global)\.)?(?:anthropic|meta|amazon|cohere|mistral|ai21|deepseek)\.(.+?)(?:-v\d+(?::\d+)?)?$/i;
+
+// Strips provider wrappers but keeps the case; alias and pricing lookups lowercase their keys
+const normalizeModelName = (raw) => {
+    let name = String(raw).trim();
+
+    const arn = name.match(BEDROCK_ARN);
+    if (arn) name = arn[1];
+
+    const bedrock = name.match(BEDROCK_ID);
+    if (bedrock) name = bedrock[1];
+
+    name = name.replace(/^(?:projects\/[^/]+\/locations\/[^/]+\/)?(?:publishers\/[^/]+\/)?models\//i, '');
+    return name;
+};
+
+// Returns { model, pricingModels }: the name to log and the pricing keys to try in order
+export const canonicalizeModel = (raw, aliases) => {
+    if (!raw) return { model: raw, pricingModels: [] };
+    const rawName = String(raw).trim();
+
+    const direct = lookupAlias(aliases, rawName.toLowerCase());
+    if (direct) return { model: direct.model, pricingModels: [direct.pricingModel || direct.model] };
+
+    const normalized = normalizeModelName(rawName);
+    const aliased = lookupAlias(aliases, normalized.toLowerCase());
+    if (aliased) return { model: aliased.model, pricingModels: [aliased.pricingModel || aliased.model] };
+
+    // Fine-tunes keep their full ID for reporting, but price as the fine-tuned base, then the base
+    const fineTune = normalized.match(/^ft:([^:]+):/i);
+    if (fineTune) return { model: rawName, pricingModels: [`ft:${fineTune[1]}`, fineTune[1]] };
+
+    return { model: normalized, pricingModels: [normalized] };
+};
+
+// Snapshot suffixes fall back to the undated model, e.g. gpt-4o-2024-08-06 -> gpt-4o
+export const getPricingCandidates = (pricingModels) => {
+    const candidates = [];
+    pricingModels.forEach((model) => {
+        const normalizedModel = String(model).toLowerCase();
+        [
+            normalizedModel,
+            normalizedModel.replace(/-latest$/i, ''),
+            normalizedModel.replace(/-\d{4}-\d{2}-\d{2}$/i, ''),
+            normalizedModel.replace(/-\d{8}$/, ''),
+        ].forEach((candidate) => {
+            if (!candidates.includes(candidate)) candidates.push(candidate);
+        });
+    });
+    return candidates;
+};
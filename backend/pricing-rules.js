@@ -0,0 +1,77 @@
+import { globToRegex } from './glob.js';
+
+// Rule-based pricing for APIs that don't report a model or tokens (OCR, maps, SMS, ...).
+// Rules live in the `pricing_rules` table and are matched on target host, method and path.
+//
+// A rule's cost is:   flat_fee + price(units)
+//   units  - `unit_field` read from the JSON response (e.g. 'result.pages'), or 1 per request
+//   price  - graduated `tiers` when present, otherwise units * unit_price
+// Tiers are [{ up_to: 1000, unit_price: 0.01 }, { up_to: null, unit_price: 0.005 }], where
+// `up_to` is the cumulative monthly volume at which the tier ends (null = no limit).
+
+const parseTiers = (tiers) => {
+    const parsed = typeof tiers === 'string' ? JSON.parse(tiers) : tiers;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+        .map((tier) => ({
+            upTo: tier.up_to == null ? Infinity : Number(tier.up_to),
+            unitPrice: Number(tier.unit_price || 0),
+        }))
+        .sort((a, b) => a.upTo - b.upTo);
+};
+
+export const compilePricingRule = (row) => ({
+    id: row.id,
+    name: row.name || `rule-${row.id}`,
+    host: row.target_host ? globToRegex(String(row.target_host)) : null,
+    method: row.method && row.method !== '*' ? String(row.method).toUpperCase() : null,
+    path: row.path_pattern ? globToRegex(String(row.path_pattern)) : null,
+    flatFee: Number(row.flat_fee || 0),
+    unitPrice: Number(row.unit_price || 0),
+    unitField: row.unit_field || null,
+    tiers: parseTiers(row.tiers),
+    priority: Number(row.priority || 0),
+});
+
+// Highest priority wins; among equal priorities the more specific rule wins
+const specificity = (rule) => (rule.host ? 4 : 0) + (rule.path ? 2 : 0) + (rule.method ? 1 : 0);
+
+export const sortPricingRules = (rules) => [...rules]
+    .sort((a, b) => (b.priority - a.priority) || (specificity(b) - specificity(a)));
+
+export const matchPricingRule = (rules, { host = '', method = 'GET', path = '' }) => {
+    const pathname = path.split('?')[0];
+    return rules.find((rule) => (!rule.host || rule.host.test(host))
+        && (!rule.method || rule.method === String(method).toUpperCase())
+        && (!rule.path || rule.path.test(pathname))) || null;
+};
+
+const readField = (data, field) => field
+    .split('.')
+    .reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+export const getRuleUnits = (rule, responseData) => {
+    if (!rule.unitField) return 1;
+    const value = readField(responseData, rule.unitField);
+    if (Array.isArray(value)) return value.length;
+    const units = Number(value);
+    return Number.isFinite(units) ? units : 0;
+};
+
+// `volume` is how many units this rule has already billed in the current period
+export const priceRule = (rule, units, volume = 0) => {
+    if (!rule.tiers.length) return rule.flatFee + (units * rule.unitPrice);
+
+    let cost = rule.flatFee;
+    let remaining = units;
+    let position = volume;
+    for (const tier of rule.tiers) {
+        if (remaining <= 0) break;
+        if (position >= tier.upTo) continue;
+        const inTier = Math.min(remaining, tier.upTo - position);
+        cost += inTier * tier.unitPrice;
+        remaining -= inTier;
+        position += inTier;
+    }
+    return cost;
+};
@@ -0,0 +1,58 @@
+// Anthropic Messages API. `input_tokens` excludes cached prompt tokens, which are
+// reported separately as cache writes and cache reads. Extended thinking is billed
+// inside `output_tokens` and the API does not report it separately.
+const FREE_ENDPOINTS = [
+    /\/v1\/models(\/|$|\?)/,
+    /\/v1\/messages\/count_tokens/,
+];
+
+const extractUsage = (responseData) => {
+    const usage = responseData?.usage;
+    if (!usage) return null;
+    return {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        reasoningTokens: 0,
+        cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+    };
+};
+
+// Server tools such as web search are billed per request on top of tokens
+const extractToolCalls = (responseData) => {
+    const serverToolUse = responseData?.usage?.server_tool_use || {};
+    const toolCalls = {};
+    if (serverToolUse.web_search_requests) toolCalls.web_search = serverToolUse.web_search_requests;
+    if (serverToolUse.web_fetch_requests) toolCalls.web_fetch = serverToolUse.web_fetch_requests;
+    return toolCalls;
+};
+
+// Input tokens arrive on `message_start`; the cumulative output total on `message_delta`
+const applyStreamEvent = (summary, event) => {
+    if (!event || typeof event !== 'object') return;
+
+    if (event.type === 'message_start' && event.message) {
+        summary.model = event.message.model || summary.model;
+        summary.usage = { ...summary.usage, ...event.message.usage };
+        return;
+    }
+
+    if (event.type === 'message_delta' && event.usage) {
+        summary.usage = { ...summary.usage, ...event.usage };
+    }
+};
+
+export default {
+    name: 'anthropic',
+    label: 'Anthropic',
+    hosts: ['api.anthropic.com'],
+    auth: { header: 'x-api-key', scheme: null },
+    paths: [/\/v1\/messages/],
+    extractModel: (responseData) => responseData?.model || null,
+    extractUsage,
+    detectCategory: () => 'text',
+    extractUnits: () => null,
+    extractToolCalls,
+    applyStreamEvent,
+    isBillable: ({ path = '' }) => !FREE_ENDPOINTS.some((pattern) => pattern.test(path)),
+};
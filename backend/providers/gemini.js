@@ -0,0 +1,48 @@
+// Google Gemini and Vertex AI. The model lives in the path, e.g.
+// /v1beta/models/gemini-2.5-pro:generateContent or
+// /v1/projects/p/locations/l/publishers/google/models/gemini-2.5-pro:streamGenerateContent
+const MODEL_PATH = /\/models\/([^/:?]+):(?:generateContent|streamGenerateContent|countTokens|embedContent|batchEmbedContents)/i;
+
+const getModelFromPath = (path = '') => {
+    const match = path.match(MODEL_PATH);
+    return match ? decodeURIComponent(match[1]) : null;
+};
+
+// `promptTokenCount` includes cached content; `thoughtsTokenCount` is reported
+// separately from the visible `candidatesTokenCount`
+const extractUsage = (responseData) => {
+    const usageMetadata = responseData?.usageMetadata;
+    if (!usageMetadata) return null;
+    const cachedTokens = usageMetadata.cachedContentTokenCount || 0;
+    return {
+        inputTokens: Math.max((usageMetadata.promptTokenCount || 0) - cachedTokens, 0),
+        outputTokens: usageMetadata.candidatesTokenCount || 0,
+        reasoningTokens: usageMetadata.thoughtsTokenCount || 0,
+        cacheWriteTokens: 0,
+        cacheReadTokens: cachedTokens,
+    };
+};
+
+// Every chunk carries running totals, so the latest usageMetadata wins
+const applyStreamEvent = (summary, event) => {
+    if (!event || typeof event !== 'object') return;
+    if (event.usageMetadata) summary.usageMetadata = event.usageMetadata;
+};
+
+export default {
+    name: 'gemini',
+    label: 'Gemini',
+    hosts: ['generativelanguage.googleapis.com', 'aiplatform.googleapis.com'],
+    auth: { header: 'x-goog-api-key', scheme: null },
+    // Vertex AI only takes short-lived OAuth access tokens, which a stored key can't be, so
+    // callers keep sending their own
+    hostAuth: [['aiplatform.googleapis.com', null]],
+    paths: [MODEL_PATH],
+    extractModel: (responseData, path) => getModelFromPath(path),
+    extractUsage,
+    detectCategory: ({ path = '' }) => (/:(batchEmbedContents|embedContent)/i.test(path) ? 'embedding' : 'text'),
+    extractUnits: () => null,
+    extractToolCalls: () => ({}),
+    applyStreamEvent,
+    isBillable: ({ method = 'POST', path = '' }) => method !== 'GET' && !/:countTokens/i.test(path),
+};
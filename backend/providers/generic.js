@@ -0,0 +1,56 @@
+import openai from './openai.js';
+import anthropic from './anthropic.js';
+import gemini from './gemini.js';
+
+// Fallback for upstreams no adapter claims (OpenAI-compatible hosts, internal APIs).
+// Usage is recognised by shape, so compatible providers are still tracked.
+
+// Bedrock runtime puts the model ID (or ARN) in the path: /model/{modelId}/converse
+const BEDROCK_MODEL_PATH = /\/model\/([^/]+)\/(?:invoke|invoke-with-response-stream|converse|converse-stream)(?:$|\?)/;
+
+const extractModel = (responseData, path = '') => {
+    if (responseData?.model) return responseData.model;
+    const bedrock = path.match(BEDROCK_MODEL_PATH);
+    if (bedrock) return decodeURIComponent(bedrock[1]);
+    return gemini.extractModel(responseData, path);
+};
+const pickAdapter = (responseData) => {
+    if (responseData?.usageMetadata) return gemini;
+    const usage = responseData?.usage;
+    if (!usage) return null;
+    // The OpenAI Responses API names its counts like Anthropic does, but nests the cached and
+    // reasoning counts in *_details
+    if (usage.input_tokens_details || usage.output_tokens_details) return openai;
+    const isAnthropicShape = 'input_tokens' in usage
+        || 'cache_creation_input_tokens' in usage
+        || 'cache_read_input_tokens' in usage;
+    return isAnthropicShape ? anthropic : openai;
+};
+
+const applyStreamEvent = (summary, event) => {
+    if (!event || typeof event !== 'object') return;
+    if (event.type === 'message_start' || event.type === 'message_delta') {
+        anthropic.applyStreamEvent(summary, event);
+        return;
+    }
+    gemini.applyStreamEvent(summary, event);
+    openai.applyStreamEvent(summary, event);
+};
+
+export default {
+    name: 'generic',
+    label: 'Generic',
+    hosts: [],
+    auth: { header: 'authorization', scheme: 'Bearer' },
+    paths: [],
+    extractModel,
+    extractUsage: (responseData) => pickAdapter(responseData)?.extractUsage(responseData) || null,
+    detectCategory: (request) => openai.detectCategory(request),
+    extractUnits: (context) => openai.extractUnits(context),
+    extractToolCalls: (responseData) => ({
+        ...openai.extractToolCalls(responseData),
+        ...anthropic.extractToolCalls(responseData),
+    }),
+    applyStreamEvent,
+    isBillable: () => true,
+};
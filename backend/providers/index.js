@@ -0,0 +1,101 @@
+import openai from './openai.js';
+import anthropic from './anthropic.js';
+import gemini from './gemini.js';
+import generic from './generic.js';
+
+// Provider adapter registry.
+// An adapter is a plain object:
+//   name, label        - identifiers used in logs
+//   hosts              - hostname suffixes the adapter owns (e.g. 'api.openai.com')
+//   paths              - request path patterns used when the host is unknown
+//   auth               - { header, scheme, organizationHeader } the provider expects its
+//                        API key (and optional organisation) in
+//   hostAuth           - optional [hostSuffix, auth] overrides for hosts that take keys
+//                        differently; an auth of null keeps the vault out of that host
+//   extractModel(responseData, path)  - model name, or null
+//   extractUsage(responseData)        - { inputTokens, outputTokens, reasoningTokens,
+//                                         cacheWriteTokens, cacheReadTokens } or null
+//   detectCategory({ method, path })  - pricing category: text, embedding, image,
+//                                       transcription or speech
+//   extractUnits({ category, responseData, requestBody })
+//                                     - { units, variant } for per-unit categories, or null
+//   extractToolCalls(responseData)    - per-call tool fees, e.g. { web_search: 2 }
+//   applyStreamEvent(summary, event)  - folds one parsed SSE event into a stream summary
+//   isBillable({ method, path })      - false for free endpoints such as model listings
+const adapters = [openai, anthropic, gemini];
+
+export const registerProvider = (adapter) => {
+    adapters.unshift(adapter);
+};
+
+const getHost = (target) => {
+    try {
+        return new URL(target).hostname.toLowerCase();
+    } catch {
+        return '';
+    }
+};
+
+// A host or its subdomains; Vertex AI's regional hosts put the region in front with a dash
+// (us-central1-aiplatform.googleapis.com)
+const hasHostSuffix = (host, suffix) => host === suffix
+    || host.endsWith(`.${suffix}`)
+    || host.endsWith(`-${suffix}`);
+
+const matchesHost = (adapter, host) => (adapter.hosts || [])
+    .some((suffix) => hasHostSuffix(host, suffix));
+
+const matchesPath = (adapter, path) => (adapter.paths || [])
+    .some((pattern) => pattern.test(path));
+
+// The target host is the strongest signal; the path only decides for unknown hosts
+// (self-hosted or OpenAI-compatible upstreams). Anything else goes to the generic adapter.
+export const resolveProvider = ({ target, path = '' }) => {
+    const host = getHost(target);
+    return adapters.find((adapter) => host && matchesHost(adapter, host))
+        || adapters.find((adapter) => matchesPath(adapter, path))
+        || generic;
+};
+
+// How a vault key is sent to `target`, or null when the vault doesn't manage keys for it
+export const getProviderAuth = (provider, target) => {
+    const host = getHost(target);
+    const override = (provider.hostAuth || []).find(([suffix]) => hasHostSuffix(host, suffix));
+    if (override) return override[1];
+    return provider.auth || { header: 'authorization', scheme: 'Bearer' };
+};
+
+// Hosts owned by registered adapters, as allowlist patterns (host and its subdomains)
+export const getProviderHosts = () => adapters
+    .flatMap((adapter) => adapter.hosts || [])
+    .flatMap((host) => [host, `*.${host}`]);
+
+export const createStreamSummary = () => ({ model: null, usage: null, usageMetadata: null, output: null });
+
+// Frames of an SSE stream are separated by a blank line
+export const SSE_FRAME_SEPARATOR = /\r?\n\r?\n/;
+
+// The JSON payload of one SSE frame (its `data:` lines), or null for comments, keep-alives,
+// partial frames and the `[DONE]` marker
+export const parseSseFrame = (frame) => {
+    const data = frame
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+    if (!data || data === '[DONE]') return null;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+// Some providers (Gemini without `alt=sse`) stream a JSON array of chunks instead of SSE
+export const summarizeChunks = (provider, chunks) => {
+    const summary = createStreamSummary();
+    chunks.forEach((chunk) => provider.applyStreamEvent(summary, chunk));
+    return summary;
+};
+
+export { openai, anthropic, gemini, generic };
@@ -0,0 +1,116 @@
+// OpenAI and Azure OpenAI. Chat Completions reports `prompt_tokens`/`completion_tokens`;
+// the Responses API reports `input_tokens`/`output_tokens`. Both include cached prompt
+// tokens in the input count, so those are split out to be billed at the cached rate.
+// Likewise the output count includes o-series reasoning tokens, which are split out.
+const FREE_ENDPOINTS = [
+    /\/models(\/|$|\?)/,
+    /\/moderations(\/|$|\?)/,
+];
+
+const CATEGORY_ENDPOINTS = [
+    ['embedding', /\/embeddings/],
+    ['image', /\/images\/(generations|edits|variations)/],
+    ['transcription', /\/audio\/(transcriptions|translations)/],
+    ['speech', /\/audio\/speech/],
+];
+
+// Server-side tools in Responses API output, e.g. { type: 'web_search_call' }
+const TOOL_CALL_TYPES = ['web_search_call', 'file_search_call', 'code_interpreter_call'];
+
+// Azure routes by deployment name: /openai/deployments/{deployment}/chat/completions
+const AZURE_DEPLOYMENT_PATH = /\/openai\/deployments\/([^/?]+)/i;
+
+const extractModel = (responseData, path = '') => {
+    if (responseData?.model) return responseData.model;
+    const deployment = path.match(AZURE_DEPLOYMENT_PATH);
+    return deployment ? decodeURIComponent(deployment[1]) : null;
+};
+
+const detectCategory = ({ path = '' }) => {
+    const match = CATEGORY_ENDPOINTS.find(([, pattern]) => pattern.test(path));
+    return match ? match[0] : 'text';
+};
+
+// Units billed per item rather than per token:
+// images per generated image (variant `size:quality`), transcription per audio minute,
+// speech per input character
+const extractUnits = ({ category, responseData, requestBody }) => {
+    if (category === 'image') {
+        const size = responseData?.size || requestBody?.size || '1024x1024';
+        const quality = responseData?.quality || requestBody?.quality || 'standard';
+        return {
+            units: Array.isArray(responseData?.data) ? responseData.data.length : Number(requestBody?.n || 1),
+            variant: `${size}:${quality}`,
+        };
+    }
+    if (category === 'transcription') {
+        const seconds = responseData?.usage?.type === 'duration'
+            ? responseData.usage.seconds
+            : responseData?.duration;
+        return { units: seconds ? Number(seconds) / 60 : 0, variant: null };
+    }
+    if (category === 'speech') {
+        return { units: String(requestBody?.input || '').length, variant: null };
+    }
+    return null;
+};
+
+const extractToolCalls = (responseData) => {
+    const toolCalls = {};
+    (Array.isArray(responseData?.output) ? responseData.output : [])
+        .filter((item) => TOOL_CALL_TYPES.includes(item?.type))
+        .forEach((item) => {
+            const tool = item.type.replace(/_call$/, '');
+            toolCalls[tool] = (toolCalls[tool] || 0) + 1;
+        });
+    return toolCalls;
+};
+
+const extractUsage = (responseData) => {
+    const usage = responseData?.usage;
+    // Transcription models billed by duration report { type: 'duration', seconds }
+    if (!usage || usage.type === 'duration') return null;
+    const promptTokens = usage.prompt_tokens ?? usage.input_tokens ?? 0;
+    const promptDetails = usage.prompt_tokens_details || usage.input_tokens_details || {};
+    const cachedTokens = Math.min(promptDetails.cached_tokens || 0, promptTokens);
+    const completionTokens = usage.completion_tokens ?? usage.output_tokens ?? 0;
+    const completionDetails = usage.completion_tokens_details || usage.output_tokens_details || {};
+    const reasoningTokens = Math.min(completionDetails.reasoning_tokens || 0, completionTokens);
+    return {
+        inputTokens: promptTokens - cachedTokens,
+        outputTokens: completionTokens - reasoningTokens,
+        reasoningTokens,
+        cacheWriteTokens: 0,
+        cacheReadTokens: cachedTokens,
+    };
+};
+
+// Chat Completions streams only carry usage on the final chunk when
+// `stream_options.include_usage` is set; Responses streams end with `response.completed`
+const applyStreamEvent = (summary, event) => {
+    if (!event || typeof event !== 'object') return;
+    if (event.type === 'response.completed' && event.response) {
+        applyStreamEvent(summary, event.response);
+        return;
+    }
+    if (event.model) summary.model = event.model;
+    if (event.usage) summary.usage = { ...summary.usage, ...event.usage };
+    if (Array.isArray(event.output)) summary.output = event.output;
+};
+
+export default {
+    name: 'openai',
+    label: 'OpenAI',
+    hosts: ['api.openai.com', 'openai.azure.com'],
+    auth: { header: 'authorization', scheme: 'Bearer', organizationHeader: 'openai-organization' },
+    // Azure OpenAI API keys go in an `api-key` header
+    hostAuth: [['openai.azure.com', { header: 'api-key', scheme: null }]],
+    paths: [/\/chat\/completions/, /\/v1\/completions/, /\/v1\/responses/, /\/v1\/embeddings/],
+    extractModel,
+    extractUsage,
+    detectCategory,
+    extractUnits,
+    extractToolCalls,
+    applyStreamEvent,
+    isBillable: ({ path = '' }) => !FREE_ENDPOINTS.some((pattern) => pattern.test(path)),
+};
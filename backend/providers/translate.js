@@ -0,0 +1,292 @@
+// Request/response translation between the OpenAI Chat Completions and Anthropic Messages
+// formats, so a fallback chain can move a request from one provider to the other
+// (e.g. gpt-4o -> claude-sonnet) while the caller keeps seeing the format it sent.
+// Covers text, images, system prompts, stop sequences and function/tool calls.
+
+export const FORMAT_PATHS = {
+    openai: '/v1/chat/completions',
+    anthropic: '/v1/messages',
+};
+
+// The format a request is in, from its provider and endpoint, or null if it can't be translated
+export const detectFormat = (providerName, path = '') => {
+    const pathname = path.split('?')[0];
+    if (providerName === 'anthropic' && /\/v1\/messages$/.test(pathname)) return 'anthropic';
+    if (['openai', 'generic'].includes(providerName) && /\/chat\/completions$/.test(pathname)) return 'openai';
+    return null;
+};
+
+// The format a fallback target speaks: Anthropic, or anything OpenAI-compatible
+export const formatForProvider = (providerName) => {
+    if (providerName === 'anthropic') return 'anthropic';
+    if (['openai', 'generic'].includes(providerName)) return 'openai';
+    return null;
+};
+
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+const parseJson = (value) => {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return {};
+    }
+};
+
+// --- OpenAI -> Anthropic ---
+
+const openAiPartToAnthropic = (part) => {
+    if (typeof part === 'string') return { type: 'text', text: part };
+    if (part.type === 'text') return { type: 'text', text: part.text };
+    if (part.type === 'image_url') {
+        const url = part.image_url?.url || '';
+        const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+        return dataUrl
+            ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } }
+            : { type: 'image', source: { type: 'url', url } };
+    }
+    return null;
+};
+
+const openAiContentToAnthropic = (content) => {
+    if (content == null) return [];
+    if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : [];
+    return content.map(openAiPartToAnthropic).filter(Boolean);
+};
+
+const contentToText = (content) => {
+    if (typeof content === 'string') return content;
+    return (content || []).map((part) => part.text || '').join('');
+};
+
+// Anthropic needs alternating user/assistant turns, so consecutive turns are merged
+const pushAnthropicMessage = (messages, role, blocks) => {
+    if (!blocks.length) return;
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) last.content.push(...blocks);
+    else messages.push({ role, content: blocks });
+};
+
+const openAiRequestToAnthropic = (body, model) => {
+    const system = [];
+    const messages = [];
+    (body.messages || []).forEach((message) => {
+        if (message.role === 'system' || message.role === 'developer') {
+            system.push(contentToText(message.content));
+        } else if (message.role === 'tool') {
+            pushAnthropicMessage(messages, 'user', [{
+                type: 'tool_result',
+                tool_use_id: message.tool_call_id,
+                content: contentToText(message.content),
+            }]);
+        } else if (message.role === 'assistant') {
+            const toolUses = (message.tool_calls || []).map((call) => ({
+                type: 'tool_use',
+                id: call.id,
+                name: call.function?.name,
+                input: parseJson(call.function?.arguments || '{}'),
+            }));
+            pushAnthropicMessage(messages, 'assistant', [...openAiContentToAnthropic(message.content), ...toolUses]);
+        } else {
+            pushAnthropicMessage(messages, 'user', openAiContentToAnthropic(message.content));
+        }
+    });
+
+    const translated = {
+        model,
+        messages,
+        max_tokens: body.max_completion_tokens || body.max_tokens || DEFAULT_ANTHROPIC_MAX_TOKENS,
+    };
+    if (system.length) translated.system = system.join('\n\n');
+    if (body.temperature != null) translated.temperature = Math.min(body.temperature, 1);
+    if (body.top_p != null) translated.top_p = body.top_p;
+    if (body.stop) translated.stop_sequences = [].concat(body.stop);
+    if (body.user) translated.metadata = { user_id: String(body.user) };
+    if (body.tools?.length) {
+        translated.tools = body.tools
+            .filter((tool) => tool.type === 'function')
+            .map(({ function: fn }) => ({
+                name: fn.name,
+                description: fn.description,
+                input_schema: fn.parameters || { type: 'object', properties: {} },
+            }));
+    }
+    if (body.tool_choice === 'required') translated.tool_choice = { type: 'any' };
+    else if (body.tool_choice === 'none') translated.tool_choice = { type: 'none' };
+    else if (body.tool_choice?.function?.name) translated.tool_choice = { type: 'tool', name: body.tool_choice.function.name };
+    return translated;
+};
+
+const ANTHROPIC_TO_OPENAI_FINISH = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    max_tokens: 'length',
+    tool_use: 'tool_calls',
+};
+
+const anthropicResponseToOpenAi = (body) => {
+    if (body.type === 'error' || body.error) {
+        return { error: { message: body.error?.message || 'Upstream error', type: body.error?.type || 'api_error', code: null } };
+    }
+    const blocks = body.content || [];
+    const text = blocks.filter((block) => block.type === 'text').map((block) => block.text).join('');
+    const toolCalls = blocks
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+        }));
+    const usage = body.usage || {};
+    const promptTokens = (usage.input_tokens || 0)
+        + (usage.cache_creation_input_tokens || 0)
+        + (usage.cache_read_input_tokens || 0);
+    return {
+        id: body.id,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: body.model,
+        choices: [{
+            index: 0,
+            message: {
+                role: 'assistant',
+                content: text || null,
+                ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+            },
+            finish_reason: ANTHROPIC_TO_OPENAI_FINISH[body.stop_reason] || 'stop',
+        }],
+        usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: usage.output_tokens || 0,
+            total_tokens: promptTokens + (usage.output_tokens || 0),
+            prompt_tokens_details: { cached_tokens: usage.cache_read_input_tokens || 0 },
+        },
+    };
+};
+
+// --- Anthropic -> OpenAI ---
+
+const anthropicBlocksToOpenAiParts = (blocks) => blocks
+    .map((block) => {
+        if (block.type === 'text') return { type: 'text', text: block.text };
+        if (block.type === 'image') {
+            const url = block.source?.type === 'base64'
+                ? `data:${block.source.media_type};base64,${block.source.data}`
+                : block.source?.url;
+            return { type: 'image_url', image_url: { url } };
+        }
+        return null;
+    })
+    .filter(Boolean);
+
+const anthropicRequestToOpenAi = (body, model) => {
+    const messages = [];
+    if (body.system) {
+        messages.push({ role: 'system', content: typeof body.system === 'string' ? body.system : contentToText(body.system) });
+    }
+    (body.messages || []).forEach((message) => {
+        const blocks = typeof message.content === 'string'
+            ? [{ type: 'text', text: message.content }]
+            : (message.content || []);
+
+        if (message.role === 'assistant') {
+            const toolCalls = blocks
+                .filter((block) => block.type === 'tool_use')
+                .map((block) => ({
+                    id: block.id,
+                    type: 'function',
+                    function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+                }));
+            messages.push({
+                role: 'assistant',
+                content: contentToText(blocks.filter((block) => block.type === 'text')) || null,
+                ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+            });
+            return;
+        }
+
+        // Tool results become `tool` messages; the rest of the turn stays a user message
+        blocks.filter((block) => block.type === 'tool_result').forEach((block) => {
+            messages.push({
+                role: 'tool',
+                tool_call_id: block.tool_use_id,
+                content: typeof block.content === 'string' ? block.content : contentToText(block.content),
+            });
+        });
+        const parts = anthropicBlocksToOpenAiParts(blocks);
+        if (parts.length) {
+            const textOnly = parts.every((part) => part.type === 'text');
+            messages.push({ role: 'user', content: textOnly ? contentToText(parts) : parts });
+        }
+    });
+
+    const translated = { model, messages };
+    if (body.max_tokens) translated.max_tokens = body.max_tokens;
+    if (body.temperature != null) translated.temperature = body.temperature;
+    if (body.top_p != null) translated.top_p = body.top_p;
+    if (body.stop_sequences?.length) translated.stop = body.stop_sequences;
+    if (body.metadata?.user_id) translated.user = body.metadata.user_id;
+    if (body.tools?.length) {
+        translated.tools = body.tools
+            .filter((tool) => tool.input_schema)
+            .map((tool) => ({
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+            }));
+    }
+    if (body.tool_choice?.type === 'any') translated.tool_choice = 'required';
+    else if (body.tool_choice?.type === 'none') translated.tool_choice = 'none';
+    else if (body.tool_choice?.type === 'tool') translated.tool_choice = { type: 'function', function: { name: body.tool_choice.name } };
+    return translated;
+};
+
+const OPENAI_TO_ANTHROPIC_STOP = {
+    stop: 'end_turn',
+    length: 'max_tokens',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    content_filter: 'end_turn',
+};
+
+const openAiResponseToAnthropic = (body) => {
+    if (body.error) {
+        return { type: 'error', error: { type: body.error.type || 'api_error', message: body.error.message || 'Upstream error' } };
+    }
+    const choice = body.choices?.[0] || {};
+    const message = choice.message || {};
+    const content = [];
+    if (message.content) content.push({ type: 'text', text: contentToText(message.content) });
+    (message.tool_calls || []).forEach((call) => {
+        content.push({ type: 'tool_use', id: call.id, name: call.function?.name, input: parseJson(call.function?.arguments || '{}') });
+    });
+    const usage = body.usage || {};
+    const cachedTokens = usage.prompt_tokens_details?.cached_tokens || 0;
+    return {
+        id: body.id,
+        type: 'message',
+        role: 'assistant',
+        model: body.model,
+        content,
+        stop_reason: OPENAI_TO_ANTHROPIC_STOP[choice.finish_reason] || 'end_turn',
+        stop_sequence: null,
+        usage: {
+            input_tokens: Math.max((usage.prompt_tokens || 0) - cachedTokens, 0),
+            output_tokens: usage.completion_tokens || 0,
+            cache_read_input_tokens: cachedTokens,
+        },
+    };
+};
+
+export const translateRequest = (body, from, to, model) => {
+    if (from === to) return { ...body, model };
+    if (from === 'openai' && to === 'anthropic') return openAiRequestToAnthropic(body, model);
+    if (from === 'anthropic' && to === 'openai') return anthropicRequestToOpenAi(body, model);
+    throw new Error(`Cannot translate requests from ${from} to ${to}`);
+};
+
+export const translateResponse = (body, from, to) => {
+    if (from === to) return body;
+    if (from === 'anthropic' && to === 'openai') return anthropicResponseToOpenAi(body);
+    if (from === 'openai' && to === 'anthropic') return openAiResponseToAnthropic(body);
+    throw new Error(`Cannot translate responses from ${from} to ${to}`);
+};
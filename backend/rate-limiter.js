@@ -0,0 +1,106 @@
+import { hostMatches } from './target-guard.js';
+
+// Requests-per-minute and tokens-per-minute limits from the `rate_limits` table.
+// Each row is scoped to a user, service, gateway key or target host:
+//   { scope: 'service', match: 'Halo-OCR', requests_per_minute: 60, tokens_per_minute: 100000 }
+// A null `match` applies the limit to every user/service/key/target separately.
+//
+// Requests are counted as they arrive. Tokens are only known once the upstream answers, so
+// they are added afterwards, and a request is refused once the window's tokens are used up.
+export const RATE_LIMIT_SCOPES = ['user', 'service', 'key', 'target'];
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export const compileRateLimit = (row) => ({
+    id: row.id,
+    name: row.name || `${row.scope}:${row.match || '*'}`,
+    scope: row.scope,
+    match: row.match ? String(row.match) : null,
+    requestsPerMinute: row.requests_per_minute ? Number(row.requests_per_minute) : null,
+    tokensPerMinute: row.tokens_per_minute ? Number(row.tokens_per_minute) : null,
+});
+
+const getScopeValue = (scope, { userId, serviceName, gatewayKeyId, host }) => ({
+    user: userId,
+    service: serviceName,
+    key: gatewayKeyId,
+    target: host,
+})[scope];
+
+const limitApplies = (limit, value) => {
+    if (value == null || value === '') return false;
+    if (!limit.match) return true;
+    return limit.scope === 'target' ? hostMatches(value, limit.match) : String(value) === limit.match;
+};
+
+// The limits that apply to a request, each with the counter bucket it draws on
+export const getApplicableLimits = (limits, context) => limits
+    .filter((limit) => RATE_LIMIT_SCOPES.includes(limit.scope))
+    .map((limit) => ({ limit, value: getScopeValue(limit.scope, context) }))
+    .filter(({ limit, value }) => limitApplies(limit, value))
+    .map(({ limit, value }) => ({ limit, bucket: `${limit.id}:${value}` }));
+
+// Fixed one-minute windows in process memory. The interface is async on purpose so a Redis
+// store (INCRBY + PEXPIRE on `${key}:${windowStart}`) can replace it without touching callers.
+export const createMemoryRateLimitStore = ({ windowMs = RATE_LIMIT_WINDOW_MS } = {}) => {
+    const windows = new Map();
+
+    const currentWindow = (key, now) => {
+        const windowStart = now - (now % windowMs);
+        const entry = windows.get(key);
+        if (entry && entry.windowStart === windowStart) return entry;
+        const fresh = { windowStart, count: 0 };
+        windows.set(key, fresh);
+        return fresh;
+    };
+
+    const snapshot = (entry) => ({ count: entry.count, resetAt: entry.windowStart + windowMs });
+
+    // Drop finished windows now and then so idle keys don't pile up
+    const sweep = setInterval(() => {
+        const windowStart = Date.now() - (Date.now() % windowMs);
+        for (const [key, entry] of windows) {
+            if (entry.windowStart < windowStart) windows.delete(key);
+        }
+    }, windowMs);
+    sweep.unref();
+
+    return {
+        async increment(key, amount = 1, now = Date.now()) {
+            const entry = currentWindow(key, now);
+            entry.count += amount;
+            return snapshot(entry);
+        },
+        async get(key, now = Date.now()) {
+            return snapshot(currentWindow(key, now));
+        },
+    };
+};
+
+// Checks every applicable limit, counting this request against the request limits.
+// Returns null when the request may go ahead, otherwise the limit it hit and when to retry.
+export const checkRateLimits = async (store, applicable, now = Date.now()) => {
+    let exceeded = null;
+    for (const { limit, bucket } of applicable) {
+        if (limit.tokensPerMinute) {
+            const tokens = await store.get(`tokens:${bucket}`, now);
+            if (tokens.count >= limit.tokensPerMinute) {
+                exceeded = exceeded || { limit, kind: 'tokens', resetAt: tokens.resetAt };
+            }
+        }
+        if (limit.requestsPerMinute) {
+            const requests = await store.increment(`requests:${bucket}`, 1, now);
+            if (requests.count > limit.requestsPerMinute) {
+                exceeded = exceeded || { limit, kind: 'requests', resetAt: requests.resetAt };
+            }
+        }
+    }
+    if (!exceeded) return null;
+    return { ...exceeded, retryAfter: Math.max(Math.ceil((exceeded.resetAt - now) / 1000), 1) };
+};
+
+export const chargeRateLimitTokens = async (store, applicable, tokens, now = Date.now()) => {
+    if (!tokens) return;
+    await Promise.all(applicable
+        .filter(({ limit }) => limit.tokensPerMinute)
+        .map(({ bucket }) => store.increment(`tokens:${bucket}`, tokens, now)));
+};
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { globToRegex } from './glob.js';
+
+// Exact-match response cache for deterministic calls. Caching is opt-in through the
+// `cache_policies` table, matched on service, target host and path:
+//   { service_name: 'Halo-OCR', target_host: 'api.openai.com', path_pattern: '/v1/chat/*', ttl_seconds: 86400 }
+// The key covers the target, method, path, the JSON body with its keys sorted, and the auth
+// scope (calling service, plus the caller's own provider key if it sent one), so a cached
+// answer is never served across services or provider accounts.
+
+export const compileCachePolicy = (row) => ({
+    id: row.id,
+    serviceName: row.service_name || null,
+    host: row.target_host ? globToRegex(String(row.target_host)) : null,
+    path: row.path_pattern ? globToRegex(String(row.path_pattern)) : null,
+    ttlMs: Math.max(Number(row.ttl_seconds || 0), 0) * 1000,
+});
+
+export const matchCachePolicy = (policies, { serviceName, host, path: requestPath }) => {
+    const pathname = requestPath.split('?')[0];
+    return policies.find((policy) => policy.ttlMs > 0
+        && (!policy.serviceName || policy.serviceName === serviceName)
+        && (!policy.host || policy.host.test(host))
+        && (!policy.path || policy.path.test(pathname))) || null;
+};
+
+// JSON with object keys sorted, so {"a":1,"b":2} and {"b":2,"a":1} share a cache entry
+export const normalizeBody = (value) => {
+    if (Array.isArray(value)) return value.map(normalizeBody);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort().map((key) => [key, normalizeBody(value[key])]));
+    }
+    return value;
+};
+
+export const buildCacheKey = ({ target, method, path: requestPath, body, authScope }) => {
+    const url = new URL(requestPath, target);
+    url.searchParams.sort();
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify([url.origin, method.toUpperCase(), `${url.pathname}${url.search}`, normalizeBody(body ?? null), authScope]))
+        .digest('hex');
+};
+
+// Stores are async so a shared cache (e.g. Redis) can be added with the same shape:
+//   get(key) -> entry or null, set(key, entry, ttlMs), delete(key)
+export const createMemoryCacheStore = ({ maxEntries = 1000 } = {}) => {
+    const entries = new Map();
+    return {
+        async get(key) {
+            const cached = entries.get(key);
+            if (!cached) return null;
+            if (cached.expiresAt <= Date.now()) {
+                entries.delete(key);
+                return null;
+            }
+            return cached.entry;
+        },
+        async set(key, entry, ttlMs) {
+            entries.delete(key);
+            entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+            // Oldest entries go first once the cache is full
+            while (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+        },
+        async delete(key) {
+            entries.delete(key);
+        },
+    };
+};
+
+// One JSON file per entry, so cached responses survive restarts
+export const createDiskCacheStore = ({ directory }) => {
+    const fileFor = (key) => path.join(directory, `${key}.json`);
+    const ready = fs.mkdir(directory, { recursive: true });
+    return {
+        async get(key) {
+            await ready;
+            try {
+                const cached = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+                if (cached.expiresAt > Date.now()) return cached.entry;
+                await fs.rm(fileFor(key), { force: true });
+            } catch (err) {
+                if (err.code !== 'ENOENT') throw err;
+            }
+            return null;
+        },
+        async set(key, entry, ttlMs) {
+            await ready;
+            const file = fileFor(key);
+            const temp = `${file}.${process.pid}.tmp`;
+            await fs.writeFile(temp, JSON.stringify({ entry, expiresAt: Date.now() + ttlMs }));
+            await fs.rename(temp, file);
+        },
+        async delete(key) {
+            await ready;
+            await fs.rm(fileFor(key), { force: true });
+        },
+    };
+};
+
+export const createCacheStore = (type, options = {}) => {
+    if (type === 'memory') return createMemoryCacheStore(options);
+    if (type === 'disk') return createDiskCacheStore(options);
+    return null;
+};
@@ -0,0 +1,77 @@
+import { globToRegex } from './glob.js';
+
+// Retry policies from the `retry_policies` table, matched on service, target host, path and model:
+//   { target_host: 'api.openai.com', path_pattern: '/v1/chat/*', max_retries: 2, timeout_ms: 30000,
+//     fallbacks: [{ target: 'https://api.anthropic.com', model: 'claude-sonnet-4-5' }] }
+// Failed attempts (a `retry_on` status, a network error or a timeout) are retried with
+// exponential backoff and full jitter, honouring Retry-After. Once the retries run out, each
+// fallback is tried in order with its own retries.
+//
+// Only idempotent methods are retried by default. POST is retried when the caller sent an
+// Idempotency-Key header, when the policy sets `retry_non_idempotent`, or when the upstream
+// never saw the request (connection refused, or its circuit is open). An open circuit skips
+// straight to the next fallback.
+export const DEFAULT_RETRY_ON = [429, 500, 502, 503, 504];
+export const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const toArray = (value) => {
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string') {
+        try {
+            const parsed = JSON.parse(value);
+            return Array.isArray(parsed) ? parsed : [];
+        } catch {
+            return [];
+        }
+    }
+    return [];
+};
+
+export const compileRetryPolicy = (row) => ({
+    id: row.id,
+    name: row.name || `${row.target_host || '*'}${row.path_pattern || ''}`,
+    serviceName: row.service_name || null,
+    host: row.target_host ? globToRegex(String(row.target_host)) : null,
+    path: row.path_pattern ? globToRegex(String(row.path_pattern)) : null,
+    model: row.model ? globToRegex(String(row.model)) : null,
+    maxRetries: Math.max(Number(row.max_retries ?? 2), 0),
+    retryOn: new Set(toArray(row.retry_on).length ? toArray(row.retry_on).map(Number) : DEFAULT_RETRY_ON),
+    timeoutMs: row.timeout_ms ? Number(row.timeout_ms) : null,
+    baseDelayMs: Math.max(Number(row.base_delay_ms ?? 250), 0),
+    maxDelayMs: Math.max(Number(row.max_delay_ms ?? 5000), 0),
+    retryNonIdempotent: Boolean(row.retry_non_idempotent),
+    fallbacks: toArray(row.fallbacks)
+        .filter((fallback) => fallback && fallback.target)
+        .map((fallback) => ({ target: String(fallback.target), model: fallback.model ? String(fallback.model) : null })),
+});
+
+export const matchRetryPolicy = (policies, { serviceName, host, path: requestPath, model }) => {
+    const pathname = requestPath.split('?')[0];
+    return policies.find((policy) => (!policy.serviceName || policy.serviceName === serviceName)
+        && (!policy.host || policy.host.test(host))
+        && (!policy.path || policy.path.test(pathname))
+        && (!policy.model || (model && policy.model.test(model)))) || null;
+};
+
+// `failure` is { status } for an upstream response, { error } for a network error/timeout,
+// or { circuitOpen: true } when the attempt was refused by the target's circuit breaker
+export const isRetryableFailure = (policy, failure) => {
+    if (failure.circuitOpen) return true;
+    if (failure.error) return NETWORK_ERROR_CODES.includes(failure.error.code);
+    return policy.retryOn.has(failure.status);
+};
+
+export const isSafeToRetry = (policy, { method, headers }, failure) => IDEMPOTENT_METHODS.includes(method.toUpperCase())
+    || Boolean(headers['idempotency-key'])
+    || policy.retryNonIdempotent
+    || Boolean(failure.circuitOpen)
+    || failure.error?.code === 'ECONNREFUSED';
+
+// Full jitter: a random delay between 0 and the capped exponential step, or Retry-After when longer
+export const getBackoffDelay = (policy, retryNumber, retryAfterMs = null, random = Math.random) => {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1));
+    const delay = Math.round(random() * ceiling);
+    return retryAfterMs != null ? Math.min(Math.max(delay, retryAfterMs), policy.maxDelayMs) : delay;
+};
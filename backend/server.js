@@ -5,8 +5,47 @@ import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { log } from 'console';
 import zlib from 'zlib';
+import crypto from 'crypto';
+import { resolveProvider, createStreamSummary, summarizeChunks, getProviderHosts, getProviderAuth, parseSseFrame, SSE_FRAME_SEPARATOR } from './providers/index.js';
+import { compilePricingRule, sortPricingRules, matchPricingRule, getRuleUnits, priceRule } from './pricing-rules.js';
+import { compileModelAliases, canonicalizeModel, getPricingCandidates } from './model-aliases.js';
+import { generateGatewayKey, hashGatewayKey, displayPrefix, readGatewayKey, isKeyActive } from './gateway-keys.js';
+import { parseList, parseNamedTargets, hostMatches, assertPublicHost, createSafeAgents } from './target-guard.js';
+import {
+    loadVaultKey,
+    encryptSecret,
+    decryptSecret,
+    secretHint,
+    selectCredentialPool,
+    pickWeighted,
+    parseRetryAfter,
+    buildCredentialHeaders,
+    stripCallerCredentials
+} from './credential-vault.js';
+import {
+    compileRateLimit,
+    getApplicableLimits,
+    createMemoryRateLimitStore,
+    checkRateLimits,
+    chargeRateLimitTokens
+} from './rate-limiter.js';
+import { compileBudget, getApplicableBudgets, BUDGET_SCOPE_COLUMNS } from './budgets.js';
+import {
+    ALERT_METRICS,
+    compileAlertRule,
+    evaluateAlertRule,
+    ALERT_EXCLUDED_OUTCOMES,
+    nextNotification,
+    buildAlertPayload,
+    sendWebhook
+} from './alerts.js';
+import { compileCachePolicy, matchCachePolicy, buildCacheKey, createCacheStore } from './response-cache.js';
+import { compileRetryPolicy, matchRetryPolicy, isRetryableFailure, isSafeToRetry, getBackoffDelay } from './retry-policies.js';
+import { FORMAT_PATHS, detectFormat, formatForProvider, translateRequest, translateResponse } from './providers/translate.js';
+import { createCircuitBreaker } from './circuit-breaker.js';
+import { createLogQueue } from './log-queue.js';
+import { createStorage } from './storage/index.js';
 
 // Load environment-specific config
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -18,13 +57,119 @@ console.log(`Loading environment from: ${envPath}`);
 dotenv.config({ path: envPath });
 
 const app = express();
-const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY);
+// Config tables (gateway keys, credentials, limits, budgets, policies, alert rules) are read from
+// Supabase. Without SUPABASE_URL, e.g. on a local Postgres, they are all empty.
+const supabase = process.env.SUPABASE_URL ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_KEY) : null;
+// Usage logs and prices live in Supabase, or in any Postgres with STORAGE_BACKEND=postgres
+const storage = createStorage({
+    backend: process.env.STORAGE_BACKEND || 'supabase',
+    supabase,
+    databaseUrl: process.env.DATABASE_URL,
+});
+console.log(`🗄️  Usage and pricing storage: ${storage.backend}`);
 
-const PRICING_TABLE = 'model_pricing';
 const PRICING_CACHE_TTL_MS = 5 * 60 * 1000;
 let pricingCache = new Map();
 let pricingCacheLoadedAt = 0;
 let pricingCacheLoading = null;
+let pricingRules = [];
+let modelAliases = compileModelAliases();
+const GATEWAY_KEYS_TABLE = 'gateway_keys';
+const GATEWAY_KEY_CACHE_TTL_MS = 60 * 1000;
+// Set REQUIRE_GATEWAY_KEY=false only for local development: identity then comes from headers
+const REQUIRE_GATEWAY_KEY = process.env.REQUIRE_GATEWAY_KEY !== 'false';
+const gatewayKeyCache = new Map();
+const SECURITY_EVENTS_TABLE = 'security_events';
+const PROVIDER_CREDENTIALS_TABLE = 'provider_credentials';
+const PROVIDER_CREDENTIAL_CACHE_TTL_MS = 60 * 1000;
+// The credential vault is on when CREDENTIAL_ENCRYPTION_KEY is set. Provider keys sent by
+// callers are then stripped, unless ALLOW_CALLER_PROVIDER_KEYS=true while services migrate.
+const VAULT_KEY = loadVaultKey(process.env.CREDENTIAL_ENCRYPTION_KEY);
+const ALLOW_CALLER_PROVIDER_KEYS = process.env.ALLOW_CALLER_PROVIDER_KEYS === 'true';
+let providerCredentials = [];
+let providerCredentialsLoadedAt = 0;
+// Round-robin scores and 429 cooldowns per credential id
+const credentialPoolState = new Map();
+const DEFAULT_KEY_COOLDOWN_MS = 30 * 1000;
+const RATE_LIMITS_TABLE = 'rate_limits';
+const RATE_LIMIT_CACHE_TTL_MS = 60 * 1000;
+let rateLimits = [];
+let rateLimitsLoadedAt = 0;
+// Counters live in this process; swap in a Redis-backed store when running several dynos
+const rateLimitStore = createMemoryRateLimitStore();
+const BUDGETS_TABLE = 'budgets';
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+// Spend per budget bucket is seeded from api_usage_logs and kept current as costs are logged;
+// it is re-read now and then to pick up spend logged by other gateway instances
+const BUDGET_SPEND_TTL_MS = 5 * 60 * 1000;
+let budgets = [];
+let budgetsLoadedAt = 0;
+const budgetSpend = new Map();
+const ALERT_RULES_TABLE = 'alert_rules';
+const ALERT_EVENTS_TABLE = 'alert_events';
+// How often alert rules are evaluated; 0 turns periodic evaluation off
+const ALERT_INTERVAL_MS = Number(process.env.ALERT_INTERVAL_SECONDS ?? 60) * 1000;
+// Per rule: { firing, lastFiredAt } as of the last delivered notification
+const alertState = new Map();
+let alertEvaluation = null;
+const CACHE_POLICIES_TABLE = 'cache_policies';
+const CACHE_POLICY_CACHE_TTL_MS = 60 * 1000;
+// RESPONSE_CACHE=memory or disk turns the response cache on; cache_policies decide what is cached
+const responseCache = createCacheStore(process.env.RESPONSE_CACHE, {
+    directory: process.env.RESPONSE_CACHE_DIR || path.join(__dirname, '.cache', 'responses'),
+    maxEntries: Number(process.env.RESPONSE_CACHE_MAX_ENTRIES || 1000),
+});
+let cachePolicies = [];
+let cachePoliciesLoadedAt = 0;
+const RETRY_POLICIES_TABLE = 'retry_policies';
+const RETRY_POLICY_CACHE_TTL_MS = 60 * 1000;
+// Sent on requests translated to the Anthropic format when the caller didn't pick a version
+const ANTHROPIC_API_VERSION = '2023-06-01';
+let retryPolicies = [];
+let retryPoliciesLoadedAt = 0;
+// Per-host circuit breakers, on unless CIRCUIT_BREAKER=false; state lives in this process
+const CIRCUIT_BREAKER_ENABLED = process.env.CIRCUIT_BREAKER !== 'false';
+const circuitBreaker = createCircuitBreaker({
+    windowMs: Number(process.env.CIRCUIT_WINDOW_SECONDS || 60) * 1000,
+    minRequests: Number(process.env.CIRCUIT_MIN_REQUESTS || 10),
+    failureRate: Number(process.env.CIRCUIT_FAILURE_RATE || 50),
+    slowCallMs: Number(process.env.CIRCUIT_SLOW_CALL_MS || 30000),
+    slowCallRate: Number(process.env.CIRCUIT_SLOW_CALL_RATE || 80),
+    openMs: Number(process.env.CIRCUIT_OPEN_SECONDS || 30) * 1000,
+});
+// api_usage_logs rows are spooled to disk and inserted in batches, so a Supabase outage
+// delays rows instead of dropping them. Each gateway instance needs its own spool file.
+const usageLogQueue = createLogQueue({
+    label: 'usage log',
+    spoolPath: process.env.USAGE_LOG_SPOOL || path.join(__dirname, '.cache', 'usage-log-spool.jsonl'),
+    batchSize: Number(process.env.USAGE_LOG_BATCH_SIZE || 100),
+    flushIntervalMs: Number(process.env.USAGE_LOG_FLUSH_MS || 1000),
+    insert: (rows) => storage.usage.insertLogs(rows),
+});
+// Heroku sends SIGKILL 30 seconds after SIGTERM
+const SHUTDOWN_DRAIN_MS = Number(process.env.SHUTDOWN_DRAIN_SECONDS || 25) * 1000;
+
+// Upstream allowlist: known provider hosts, the default PROXY_TARGET, named targets and
+// anything listed in ALLOWED_TARGET_HOSTS. PRIVATE_TARGET_HOSTS opts internal services
+// out of the private-address check.
+const NAMED_TARGETS = parseNamedTargets(process.env.NAMED_TARGETS);
+const PRIVATE_TARGET_HOSTS = parseList(process.env.PRIVATE_TARGET_HOSTS);
+const hostOf = (url) => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return null;
+    }
+};
+const ALLOWED_TARGET_HOSTS = [
+    ...getProviderHosts(),
+    ...parseList(process.env.ALLOWED_TARGET_HOSTS),
+    ...PRIVATE_TARGET_HOSTS,
+    ...[process.env.PROXY_TARGET, ...NAMED_TARGETS.values()].map(hostOf).filter(Boolean),
+];
+const isTrustedPrivateHost = (host) => PRIVATE_TARGET_HOSTS.some((pattern) => hostMatches(host, pattern));
+// Units billed per tiered rule in the current month (as promises), seeded from api_usage_logs
+const ruleVolumes = new Map();
 
 // Enable CORS
 const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || "")
@@ -42,18 +187,28 @@ app.use(
 // This leaves the body stream intact for the proxy to forward to OpenAI.
 app.use('/api', express.json());
 
-// 1. Cost Calculator Logic (Supabase pricing table)
+// Active rows of a config table, or none when Supabase isn't configured
+const loadConfigRows = async (table, columns) => {
+    if (!supabase) return [];
+    const { data, error } = await supabase
+        .from(table)
+        .select(columns)
+        .eq('active', true);
+    if (error) throw error;
+    return data || [];
+};
+
+// 1. Cost Calculator Logic (pricing store)
 const ensurePricingCache = async () => {
     const cacheAge = Date.now() - pricingCacheLoadedAt;
     if (pricingCache.size && cacheAge < PRICING_CACHE_TTL_MS) return;
     if (pricingCacheLoading) return pricingCacheLoading;
 
     pricingCacheLoading = (async () => {
-        const { data, error } = await supabase
-            .from(PRICING_TABLE)
-            .select('model,tier,category,input_per_million,output_per_million,cached_input_per_million');
-
-        if (error) {
+        let data;
+        try {
+            data = await storage.pricing.listModelPrices();
+        } catch (error) {
             console.error('❌ PRICING LOAD ERROR:', error.message);
             return;
         }
@@ -63,14 +218,54 @@ const ensurePricingCache = async () => {
             const modelKey = String(row.model || '').toLowerCase();
             const tierKey = String(row.tier || 'standard').toLowerCase();
             const categoryKey = String(row.category || 'text').toLowerCase();
-            const key = `${tierKey}:${categoryKey}:${modelKey}`;
-            nextCache.set(key, {
+            // Variants price one model differently per option, e.g. image size and quality
+            const variantKey = row.variant ? `@${String(row.variant).toLowerCase()}` : '';
+            const key = `${tierKey}:${categoryKey}:${modelKey}${variantKey}`;
+            // Each key holds every dated version of its rate; an open end means "still current"
+            if (!nextCache.has(key)) nextCache.set(key, []);
+            nextCache.get(key).push({
+                from: row.effective_from ? new Date(row.effective_from).getTime() : -Infinity,
+                to: row.effective_to ? new Date(row.effective_to).getTime() : Infinity,
                 input: Number(row.input_per_million || 0) / 1_000_000,
                 output: Number(row.output_per_million || 0) / 1_000_000,
-                cachedInput: Number(row.cached_input_per_million || 0) / 1_000_000,
+                // Cached prompt tokens are billed at the input rate unless a cached rate is configured
+                cachedInput: row.cached_input_per_million == null
+                    ? Number(row.input_per_million || 0) / 1_000_000
+                    : Number(row.cached_input_per_million) / 1_000_000,
+                // Cache writes fall back to the plain input rate when no premium is configured
+                cacheWrite: row.cache_write_per_million == null
+                    ? Number(row.input_per_million || 0) / 1_000_000
+                    : Number(row.cache_write_per_million) / 1_000_000,
+                // Reasoning tokens are billed as output unless a separate rate is configured
+                reasoning: row.reasoning_per_million == null
+                    ? Number(row.output_per_million || 0) / 1_000_000
+                    : Number(row.reasoning_per_million) / 1_000_000,
+                // Flat price per unit: image, audio minute, character or tool call
+                unit: Number(row.unit_price || 0),
             });
         });
 
+        try {
+            // A malformed row (e.g. `tiers` that isn't JSON) is skipped rather than breaking pricing
+            const rules = (await storage.pricing.listPricingRules()).flatMap((row) => {
+                try {
+                    return [compilePricingRule(row)];
+                } catch (ruleError) {
+                    console.error(`❌ PRICING RULE ${row.id} SKIPPED:`, ruleError.message);
+                    return [];
+                }
+            });
+            pricingRules = sortPricingRules(rules);
+        } catch (rulesError) {
+            console.error('❌ PRICING RULES LOAD ERROR:', rulesError.message);
+        }
+
+        try {
+            modelAliases = compileModelAliases(await storage.pricing.listModelAliases());
+        } catch (aliasesError) {
+            console.error('❌ MODEL ALIASES LOAD ERROR:', aliasesError.message);
+        }
+
         pricingCache = nextCache;
         pricingCacheLoadedAt = Date.now();
     })();
@@ -79,47 +274,1137 @@ const ensurePricingCache = async () => {
     pricingCacheLoading = null;
 };
 
-const getPricingRate = (model, tier = 'standard', category = 'text') => {
+// Picks the version of a rate that was in effect at `at` (defaults to now)
+const findRateVersion = (key, at) => {
+    const versions = pricingCache.get(key);
+    if (!versions) return null;
+    const time = at ? new Date(at).getTime() : Date.now();
+    return versions.find((version) => version.from <= time && time < version.to) || null;
+};
+
+const getPricingRate = (model, tier = 'standard', category = 'text', variant = null, at = null) => {
     if (!model) return null;
-    const normalizedModel = String(model).toLowerCase();
     const normalizedTier = String(tier).toLowerCase();
     const normalizedCategory = String(category).toLowerCase();
-    const key = `${normalizedTier}:${normalizedCategory}:${normalizedModel}`;
-    if (pricingCache.has(key)) return pricingCache.get(key);
 
-    const withoutLatest = normalizedModel.replace(/-latest$/i, '');
-    const withoutDate = normalizedModel.replace(/-\d{4}-\d{2}-\d{2}$/i, '');
-    const candidates = [withoutLatest, withoutDate];
-    for (const candidate of candidates) {
+    const { pricingModels } = canonicalizeModel(model, modelAliases);
+    for (const candidate of getPricingCandidates(pricingModels)) {
         const candidateKey = `${normalizedTier}:${normalizedCategory}:${candidate}`;
-        if (pricingCache.has(candidateKey)) return pricingCache.get(candidateKey);
+        const rate = (variant && findRateVersion(`${candidateKey}@${String(variant).toLowerCase()}`, at))
+            || findRateVersion(candidateKey, at);
+        if (rate) return rate;
     }
     return null;
 };
 
-const calculateCost = (model, input, output, tier = 'standard', category = 'text') => {
-    const rate = getPricingRate(model, tier, category);
+const calculateCost = (model, input, output, tier = 'standard', category = 'text', extra = {}) => {
+    const rate = getPricingRate(model, tier, category, extra.variant, extra.at);
     if (!rate) return 0;
     const inputTokens = Number(input || 0);
     const outputTokens = Number(output || 0);
-    return (inputTokens * rate.input) + (outputTokens * rate.output);
+    const cacheWriteTokens = Number(extra.cacheWrite || 0);
+    const cacheReadTokens = Number(extra.cacheRead || 0);
+    const reasoningTokens = Number(extra.reasoning || 0);
+    const units = Number(extra.units || 0);
+    return (inputTokens * rate.input)
+        + (outputTokens * rate.output)
+        + (cacheWriteTokens * rate.cacheWrite)
+        + (cacheReadTokens * rate.cachedInput)
+        + (reasoningTokens * rate.reasoning)
+        + (units * rate.unit);
+};
+
+// Per-call tool fees (e.g. web search) are priced as category 'tool' rows keyed by tool name
+const calculateToolCost = (toolCalls = {}, tier = 'standard', at = null) => Object.entries(toolCalls || {})
+    .reduce((total, [tool, calls]) => {
+        const rate = getPricingRate(tool, tier, 'tool', null, at);
+        return total + (rate ? Number(calls || 0) * rate.unit : 0);
+    }, 0);
+
+// Re-prices a stored api_usage_logs row at the rates in effect when it was created
+const calculateLogCost = (log) => {
+    const model = log.model || 'default';
+    const tier = log.pricing_tier || 'standard';
+    const category = log.category || 'text';
+    const at = log.created_at;
+    const inputTokens = Number(log.input_tokens ?? log.token_input ?? 0);
+    const outputTokens = Number(log.output_tokens ?? log.token_output ?? 0);
+    const cost = calculateCost(model, inputTokens, outputTokens, tier, category, {
+        cacheWrite: log.cache_write_tokens,
+        cacheRead: log.cache_read_tokens,
+        reasoning: log.reasoning_tokens,
+        units: log.units,
+        variant: log.unit_variant,
+        at,
+    }) + calculateToolCost(log.tool_calls, tier, at);
+    const reasoningCost = calculateCost(model, 0, 0, tier, category, { reasoning: log.reasoning_tokens, at });
+    return { cost, reasoningCost };
+};
+
+// Fallback pricing for non-LLM APIs: only used when no model_pricing row matches
+// Returns the units already billed by a tiered rule this month and adds `units` to it.
+// The running total is chained synchronously so concurrent requests see distinct volumes.
+const reserveRuleVolume = (rule, units) => {
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+    const period = periodStart.slice(0, 7);
+    const key = `${rule.id}:${period}`;
+    if (!ruleVolumes.has(key)) {
+        // Past months are never billed again
+        [...ruleVolumes.keys()]
+            .filter((existing) => !existing.endsWith(`:${period}`))
+            .forEach((existing) => ruleVolumes.delete(existing));
+        ruleVolumes.set(key, (async () => {
+            try {
+                return await storage.usage.ruleVolume({ ruleId: rule.id, since: periodStart });
+            } catch (error) {
+                console.error('❌ RULE VOLUME ERROR:', error.message);
+                return 0;
+            }
+        })());
+    }
+    const previous = ruleVolumes.get(key);
+    ruleVolumes.set(key, previous.then((volume) => volume + units));
+    return previous;
+};
+
+const applyPricingRule = async ({ target, method, path, responseData }) => {
+    let host = '';
+    try {
+        host = new URL(target).hostname;
+    } catch {}
+    const rule = matchPricingRule(pricingRules, { host, method, path });
+    if (!rule) return null;
+
+    const units = getRuleUnits(rule, responseData);
+    if (!rule.tiers.length) return { rule, units, cost: priceRule(rule, units) };
+
+    const volume = await reserveRuleVolume(rule, units);
+    return { rule, units, cost: priceRule(rule, units, volume) };
 };
 
 // 2. The Tracking Interceptor
-const apiProxy = createProxyMiddleware({
+const getTarget = (req) => req.target || req.headers['x-target-url'] || process.env.PROXY_TARGET;
+
+// Blocked or rejected requests are recorded for review; failures here never block the response
+const logSecurityEvent = (req, eventType, reason, target = null) => {
+    console.warn(`🚨 SECURITY ${eventType}: ${reason}`);
+    if (!supabase) return;
+    supabase.from(SECURITY_EVENTS_TABLE).insert({
+        event_type: eventType,
+        reason,
+        target,
+        method: req.method,
+        path: req.originalUrl || req.url,
+        client_ip: req.ip,
+        user_id: req.gatewayKey?.user_id || null,
+        service_name: req.gatewayKey?.service_name || null,
+        gateway_key_id: req.gatewayKey?.id || null
+    }).then(({ error }) => {
+        if (error) console.error('❌ SECURITY EVENT LOG ERROR:', error.message);
+    });
+};
+
+// Gateway keys can be restricted to some targets, by name or host pattern
+const keyAllowsTarget = (req, host, targetName = null) => {
+    const keyTargets = req.gatewayKey?.allowed_targets || [];
+    return !keyTargets.length
+        || keyTargets.some((allowed) => allowed.toLowerCase() === targetName || hostMatches(host, allowed));
+};
+
+// Resolves x-target-url (a URL or a NAMED_TARGETS name) and refuses anything off the
+// allowlist, outside the caller's key restrictions, or pointing at a private address
+const guardTarget = async (req, res, next) => {
+    const requested = String(req.headers['x-target-url'] || process.env.PROXY_TARGET || '').trim();
+    const reject = (status, reason) => {
+        logSecurityEvent(req, 'target_blocked', reason, requested || null);
+        res.status(status).json({ error: reason });
+    };
+
+    if (!requested) return reject(400, 'Missing x-target-url header');
+
+    const targetName = NAMED_TARGETS.has(requested.toLowerCase()) ? requested.toLowerCase() : null;
+    const target = targetName ? NAMED_TARGETS.get(targetName) : requested;
+    let targetUrl;
+    try {
+        targetUrl = new URL(target);
+    } catch {
+        return reject(400, 'x-target-url must be an absolute URL or a named target');
+    }
+    if (!['http:', 'https:'].includes(targetUrl.protocol) || targetUrl.username || targetUrl.password) {
+        return reject(400, 'x-target-url must be a plain http(s) URL');
+    }
+
+    const host = targetUrl.hostname;
+    if (!ALLOWED_TARGET_HOSTS.some((pattern) => hostMatches(host, pattern))) {
+        return reject(403, `Target host ${host} is not on the gateway allowlist`);
+    }
+
+    if (!keyAllowsTarget(req, host, targetName)) {
+        return reject(403, `This gateway key is not allowed to use target ${targetName || host}`);
+    }
+
+    if (!isTrustedPrivateHost(host)) {
+        try {
+            await assertPublicHost(host);
+        } catch (err) {
+            return reject(403, `Target ${host} is not reachable through the gateway (${err.message})`);
+        }
+    }
+
+    req.target = target;
+    next();
+};
+
+// Looks up a presented key by hash; hits (and misses) are cached briefly
+const lookupGatewayKey = async (key) => {
+    const keyHash = hashGatewayKey(key);
+    const cached = gatewayKeyCache.get(keyHash);
+    if (cached && Date.now() - cached.loadedAt < GATEWAY_KEY_CACHE_TTL_MS) return cached.record;
+    // Gateway keys are only issued through Supabase
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+        .from(GATEWAY_KEYS_TABLE)
+        .select('id,name,key_prefix,service_name,user_id,allowed_targets,active,revoked_at,expires_at')
+        .eq('key_hash', keyHash)
+        .maybeSingle();
+    if (error) throw error;
+
+    // Only issued keys are cached: misses come from arbitrary callers and would grow the map
+    // without bound. Expired entries are swept as new ones come in.
+    if (!data) return null;
+    const now = Date.now();
+    gatewayKeyCache.forEach((entry, hash) => {
+        if (now - entry.loadedAt >= GATEWAY_KEY_CACHE_TTL_MS) gatewayKeyCache.delete(hash);
+    });
+    gatewayKeyCache.set(keyHash, { record: data, loadedAt: now });
+
+    supabase.from(GATEWAY_KEYS_TABLE)
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', data.id)
+        .then(({ error: updateError }) => {
+            if (updateError) console.error('❌ GATEWAY KEY UPDATE ERROR:', updateError.message);
+        });
+    return data;
+};
+
+// Rejects proxy requests without a valid x-gateway-key before anything is forwarded
+const authenticateGatewayKey = async (req, res, next) => {
+    if (!REQUIRE_GATEWAY_KEY) return next();
+
+    const key = readGatewayKey(req);
+    if (!key) {
+        return res.status(401).json({ error: 'Missing gateway key. Send it in the x-gateway-key header.' });
+    }
+
+    try {
+        const record = await lookupGatewayKey(key);
+        if (!isKeyActive(record)) {
+            logSecurityEvent(req, 'gateway_key_rejected', `Gateway key ${displayPrefix(key)}… is ${record ? 'revoked or expired' : 'unknown'}`);
+            return res.status(401).json({ error: 'Invalid, revoked or expired gateway key' });
+        }
+        req.gatewayKey = record;
+        next();
+    } catch (err) {
+        console.error('❌ GATEWAY KEY LOOKUP ERROR:', err.message);
+        res.status(503).json({ error: 'Unable to verify gateway key' });
+    }
+};
+
+// Identity comes from the gateway key; the x-user-id/x-service-name headers are only
+// trusted when key enforcement is switched off
+const getCallerIdentity = (req) => {
+    if (req.gatewayKey) {
+        return {
+            userId: req.gatewayKey.user_id,
+            serviceName: req.gatewayKey.service_name,
+            gatewayKeyId: req.gatewayKey.id,
+        };
+    }
+    return {
+        userId: req.headers['x-user-id'] || 'test_user',
+        serviceName: req.headers['x-service-name'] || 'Unknown Service',
+        gatewayKeyId: null,
+    };
+};
+
+const loadRateLimits = async () => {
+    if (Date.now() - rateLimitsLoadedAt < RATE_LIMIT_CACHE_TTL_MS) return rateLimits;
+    rateLimits = (await loadConfigRows(RATE_LIMITS_TABLE, 'id,name,scope,match,requests_per_minute,tokens_per_minute')).map(compileRateLimit);
+    rateLimitsLoadedAt = Date.now();
+    return rateLimits;
+};
+
+// Every upstream attempt gets its own api_usage_logs row. Retries and fallbacks point back
+// at the first attempt through parent_request_id, so their cost shows up on its own.
+const getAttemptFields = (req) => {
+    if (!req.attempt) return {};
+    return {
+        request_id: req.attempt.id,
+        parent_request_id: req.attempt.number > 1 ? req.requestId : null,
+        attempt: req.attempt.number,
+        attempt_reason: req.attempt.reason,
+    };
+};
+
+// Outcomes of requests that never got a complete provider response, so there is nothing to price
+const NO_RESPONSE_OUTCOMES = ['throttled', 'budget_blocked', 'circuit_open', 'network_error', 'timeout', 'client_aborted'];
+
+// Requests the gateway answers itself (throttled, over budget, served from cache) and attempts
+// that never got an upstream response are logged with their own `outcome` so the dashboard
+// can tell them apart from provider responses
+const logGatewayResponse = (req, { status, outcome, ...extra }) => {
+    const caller = getCallerIdentity(req);
+    usageLogQueue.enqueue({
+        user_id: caller.userId,
+        service_name: caller.serviceName,
+        gateway_key_id: caller.gatewayKeyId,
+        endpoint: req.originalUrl || req.url,
+        status_code: status,
+        latency_ms: 0,
+        model: req.headers['x-model'] || null,
+        outcome,
+        estimated_cost: 0,
+        ...getAttemptFields(req),
+        ...extra
+    });
+};
+
+// Refuses requests over their requests/minute or tokens/minute limits with a 429
+const enforceRateLimits = async (req, res, next) => {
+    try {
+        const caller = getCallerIdentity(req);
+        const applicable = getApplicableLimits(await loadRateLimits(), {
+            ...caller,
+            host: new URL(getTarget(req)).hostname,
+        });
+        if (!applicable.length) return next();
+
+        const exceeded = await checkRateLimits(rateLimitStore, applicable);
+        if (exceeded) {
+            const { limit, kind, retryAfter } = exceeded;
+            console.warn(`🚦 Throttled ${caller.serviceName} (${caller.userId}): ${kind} limit "${limit.name}", retry in ${retryAfter}s`);
+            logGatewayResponse(req, { status: 429, outcome: 'throttled', rate_limit_id: limit.id });
+            res.set('Retry-After', String(retryAfter));
+            return res.status(429).json({
+                error: `Rate limit exceeded: ${kind} per minute for ${limit.scope} (${limit.name})`,
+                retry_after: retryAfter
+            });
+        }
+        req.rateLimits = applicable;
+        next();
+    } catch (err) {
+        // A broken limits table should not take the gateway down with it
+        console.error('❌ RATE LIMIT ERROR:', err.message);
+        next();
+    }
+};
+
+const loadCachePolicies = async () => {
+    if (Date.now() - cachePoliciesLoadedAt < CACHE_POLICY_CACHE_TTL_MS) return cachePolicies;
+    cachePolicies = (await loadConfigRows(CACHE_POLICIES_TABLE, 'id,service_name,target_host,path_pattern,ttl_seconds')).map(compileCachePolicy);
+    cachePoliciesLoadedAt = Date.now();
+    return cachePolicies;
+};
+
+// Who a cached answer may be served to: the calling service, and the provider key the caller
+// sent itself, if any (hashed)
+const getCacheAuthScope = (req) => {
+    const callerKey = ['authorization', 'x-api-key', 'api-key', 'x-goog-api-key']
+        .map((header) => req.headers[header] || '')
+        .join('|');
+    return [getCallerIdentity(req).serviceName, crypto.createHash('sha256').update(callerKey).digest('hex')];
+};
+
+// Answers repeat requests from the response cache when a cache policy covers them.
+// `x-cache-bypass: true` skips the lookup; the fresh response still refreshes the cache.
+const serveFromCache = async (req, res, next) => {
+    if (!responseCache || !['GET', 'POST'].includes(req.method) || req.requestBody?.stream) return next();
+    if (req.method === 'POST' && !req.requestBody) return next();
+
+    try {
+        const target = getTarget(req);
+        const endpoint = req.originalUrl || req.url;
+        const policy = matchCachePolicy(await loadCachePolicies(), {
+            serviceName: getCallerIdentity(req).serviceName,
+            host: new URL(target).hostname,
+            path: endpoint,
+        });
+        if (!policy) return next();
+
+        const key = buildCacheKey({
+            target,
+            method: req.method,
+            path: endpoint,
+            body: req.requestBody,
+            authScope: getCacheAuthScope(req),
+        });
+        req.responseCache = { key, ttlMs: policy.ttlMs };
+        if (req.headers['x-cache-bypass'] === 'true') {
+            res.set('x-gateway-cache', 'BYPASS');
+            return next();
+        }
+
+        const entry = await responseCache.get(key);
+        if (!entry) {
+            res.set('x-gateway-cache', 'MISS');
+            return next();
+        }
+
+        console.log(`♻️  Cache hit for ${endpoint}: avoided $${Number(entry.cost || 0).toFixed(4)}`);
+        res.status(entry.status).set({
+            'content-type': entry.contentType,
+            'x-gateway-cache': 'HIT',
+            'age': String(Math.floor((Date.now() - entry.storedAt) / 1000)),
+        }).send(entry.body);
+        logGatewayResponse(req, {
+            status: entry.status,
+            outcome: 'cache_hit',
+            model: entry.model,
+            cost_avoided: entry.cost
+        });
+    } catch (err) {
+        console.error('❌ CACHE ERROR:', err.message);
+        next();
+    }
+};
+
+const storeCachedResponse = (req, proxyRes, body, { model, cost }) => {
+    if (!req.responseCache || proxyRes.statusCode !== 200) return;
+    responseCache.set(req.responseCache.key, {
+        status: proxyRes.statusCode,
+        contentType: proxyRes.headers['content-type'],
+        body,
+        model,
+        cost,
+        storedAt: Date.now(),
+    }, req.responseCache.ttlMs).catch((err) => console.error('❌ CACHE STORE ERROR:', err.message));
+};
+
+// Active vault credentials, still encrypted; secrets are decrypted per request
+const loadProviderCredentials = async () => {
+    if (Date.now() - providerCredentialsLoadedAt < PROVIDER_CREDENTIAL_CACHE_TTL_MS) return providerCredentials;
+    providerCredentials = await loadConfigRows(PROVIDER_CREDENTIALS_TABLE, 'id,name,target_host,service_name,header_name,header_scheme,organization,weight,encrypted_secret');
+    providerCredentialsLoadedAt = Date.now();
+    return providerCredentials;
+};
+
+// Picks a vault credential for the current target and calling service, round-robin across
+// the pool and skipping keys cooling down after a 429. Returns null when the vault has no
+// key for the target, or { retryAfter } when every key in its pool is cooling down.
+const pickProviderCredential = async (req) => {
+    const target = getTarget(req);
+    const provider = resolveProvider({ target, path: req.originalUrl || req.url });
+    const auth = getProviderAuth(provider, target);
+    if (!auth) return null;
+    const pool = selectCredentialPool(await loadProviderCredentials(), {
+        host: new URL(target).hostname,
+        serviceName: getCallerIdentity(req).serviceName,
+    });
+    if (!pool.length) return null;
+
+    const now = Date.now();
+    const isCooling = (credential) => (credentialPoolState.get(credential.id)?.coolingUntil || 0) > now;
+    const available = pool.filter((credential) => !isCooling(credential));
+    if (!available.length) {
+        const retryAt = Math.min(...pool.map((credential) => credentialPoolState.get(credential.id).coolingUntil));
+        const retryAfter = Math.ceil((retryAt - now) / 1000);
+        console.warn(`⏳ All ${pool.length} provider key(s) for ${new URL(target).hostname} are cooling down (${retryAfter}s)`);
+        return { retryAfter };
+    }
+
+    const credential = pickWeighted(available, credentialPoolState);
+    const secret = decryptSecret(credential.encrypted_secret, VAULT_KEY);
+    return {
+        id: credential.id,
+        organization: credential.organization || null,
+        headers: buildCredentialHeaders(credential, auth, secret),
+    };
+};
+
+// Resolves the vault credential for the first attempt; it is injected in proxyReq
+const resolveProviderCredential = async (req, res, next) => {
+    if (!VAULT_KEY) return next();
+
+    try {
+        const credential = await pickProviderCredential(req);
+        if (credential?.retryAfter) {
+            // Every key is rate limited; answer for the provider rather than burn another 429
+            res.set('Retry-After', String(credential.retryAfter));
+            return res.status(429).json({ error: 'All provider keys for this target are rate limited', retry_after: credential.retryAfter });
+        }
+        req.providerCredential = credential;
+        next();
+    } catch (err) {
+        console.error('❌ PROVIDER CREDENTIAL ERROR:', err.message);
+        res.status(503).json({ error: 'Unable to load provider credentials' });
+    }
+};
+
+// Benches a pooled key after a 429 for as long as the provider's retry-after asks
+const coolDownCredential = (req, proxyRes) => {
+    if (proxyRes.statusCode !== 429 || !req.providerCredential) return;
+    const cooldownMs = parseRetryAfter(proxyRes.headers['retry-after']) ?? DEFAULT_KEY_COOLDOWN_MS;
+    const entry = credentialPoolState.get(req.providerCredential.id) || { score: 0, coolingUntil: 0 };
+    entry.coolingUntil = Math.max(entry.coolingUntil, Date.now() + cooldownMs);
+    credentialPoolState.set(req.providerCredential.id, entry);
+    console.warn(`⏳ Provider key ${req.providerCredential.id} rate limited; cooling down for ${Math.ceil(cooldownMs / 1000)}s`);
+};
+
+// Categories whose responses are not JSON (e.g. binary audio) but are still billable
+const BODYLESS_CATEGORIES = new Set(['speech']);
+const REQUEST_BODY_LIMIT = 1024 * 1024;
+
+// Reads JSON request bodies before forwarding, so the model is known up front (budgets) and
+// per-unit pricing can read fields like the TTS `input` or the image `size`. The buffered
+// body is written to the upstream in proxyReq. Other bodies (uploads) stream straight through,
+// and so do JSON bodies whose content-length is over REQUEST_BODY_LIMIT. A chunked body can't
+// be handed back to the proxy once it has been partly read, so one over the limit gets a 413.
+const bufferRequestBody = (req, res, next) => {
+    // Node has already answered the caller's `Expect: 100-continue`. Passed on, it stops
+    // http-proxy from firing proxyReq, where the gateway key is removed and vault keys are set.
+    delete req.headers.expect;
+    if (!req.headers['content-type']?.includes('application/json')) return next();
+    if (Number(req.headers['content-length']) > REQUEST_BODY_LIMIT) return next();
+    const chunks = [];
+    let size = 0;
+    let rejected = false;
+    req.on('data', (chunk) => {
+        if (rejected) return;
+        size += chunk.length;
+        if (size > REQUEST_BODY_LIMIT) {
+            rejected = true;
+            chunks.length = 0;
+            res.status(413).json({ error: `JSON request bodies over ${REQUEST_BODY_LIMIT} bytes need a content-length header` });
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (rejected) return;
+        req.rawBody = Buffer.concat(chunks);
+        try {
+            req.requestBody = JSON.parse(req.rawBody.toString('utf8'));
+        } catch {
+            req.requestBody = null;
+        }
+        next();
+    });
+    req.on('error', next);
+};
+
+// Whether another attempt can send the caller's body again: it was buffered, or there is none.
+// Streamed bodies (uploads, large JSON) are used up by the first attempt.
+const canResendBody = (req) => Boolean(req.rawBody)
+    || (!req.headers['transfer-encoding'] && !(Number(req.headers['content-length']) > 0));
+
+const loadBudgets = async () => {
+    if (Date.now() - budgetsLoadedAt < BUDGET_CACHE_TTL_MS) return budgets;
+    budgets = (await loadConfigRows(BUDGETS_TABLE, 'id,name,scope,match,period,amount,mode')).map(compileBudget);
+    budgetsLoadedAt = Date.now();
+    return budgets;
+};
+
+// Spend so far in a budget's current window, summed from api_usage_logs in the database
+const getBudgetSpend = ({ budget, value, periodStart, periodEnd, bucket }) => {
+    const cached = budgetSpend.get(bucket);
+    if (cached && Date.now() - cached.loadedAt < BUDGET_SPEND_TTL_MS) return cached.spend;
+
+    const spend = storage.usage.budgetSpend({
+        column: BUDGET_SCOPE_COLUMNS[budget.scope],
+        value,
+        since: periodStart.toISOString(),
+    });
+    budgetSpend.set(bucket, { spend, loadedAt: Date.now(), periodEnd: periodEnd.getTime() });
+    spend.catch(() => budgetSpend.delete(bucket));
+    return spend;
+};
+
+// Buckets are keyed by period, so once a period ends its entry is never read again
+const budgetSpendSweep = setInterval(() => {
+    const now = Date.now();
+    for (const [bucket, entry] of budgetSpend) {
+        if (entry.periodEnd <= now) budgetSpend.delete(bucket);
+    }
+}, BUDGET_SPEND_TTL_MS);
+budgetSpendSweep.unref();
+
+const addBudgetSpend = (applicable, cost) => {
+    if (!cost) return;
+    applicable.forEach(({ bucket }) => {
+        const cached = budgetSpend.get(bucket);
+        if (cached) cached.spend = cached.spend.then((spend) => spend + cost);
+    });
+};
+
+// The model a request asks for, before it is sent: body, path (Gemini, Bedrock, Azure), or x-model
+const getRequestedModel = (req) => {
+    const provider = resolveProvider({ target: getTarget(req), path: req.originalUrl || req.url });
+    const requested = req.requestBody?.model
+        || provider.extractModel({}, req.originalUrl || req.url)
+        || req.headers['x-model'];
+    return requested ? canonicalizeModel(requested, modelAliases).model : null;
+};
+
+// Blocks requests with a 402 once a hard budget is spent and flags them under a soft one.
+// The tightest budget's spend and remaining amount go back in x-budget-* headers.
+const enforceBudgets = async (req, res, next) => {
+    try {
+        const activeBudgets = await loadBudgets();
+        if (!activeBudgets.length) return next();
+
+        const caller = getCallerIdentity(req);
+        const applicable = getApplicableBudgets(activeBudgets, { ...caller, model: getRequestedModel(req) });
+        if (!applicable.length) return next();
+
+        const statuses = await Promise.all(applicable.map(async (entry) => {
+            const spend = await getBudgetSpend(entry);
+            return { ...entry, spend, remaining: entry.budget.amount - spend };
+        }));
+        const tightest = statuses.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+        res.set({
+            'x-budget-name': tightest.budget.name,
+            'x-budget-period': tightest.budget.period,
+            'x-budget-limit': tightest.budget.amount.toFixed(4),
+            'x-budget-spend': tightest.spend.toFixed(4),
+            'x-budget-remaining': Math.max(tightest.remaining, 0).toFixed(4),
+        });
+
+        const exhausted = statuses.filter(({ remaining }) => remaining <= 0);
+        const hard = exhausted.find(({ budget }) => budget.mode === 'hard');
+        if (hard) {
+            const resetsAt = hard.periodEnd.toISOString();
+            console.warn(`💸 Budget "${hard.budget.name}" exhausted for ${hard.value}: $${hard.spend.toFixed(4)} of $${hard.budget.amount}`);
+            logGatewayResponse(req, { status: 402, outcome: 'budget_blocked', over_budget_id: hard.budget.id });
+            return res.status(402).json({
+                error: `Budget "${hard.budget.name}" is exhausted for ${hard.budget.scope} ${hard.value}`,
+                budget: {
+                    id: hard.budget.id,
+                    name: hard.budget.name,
+                    scope: hard.budget.scope,
+                    period: hard.budget.period,
+                    limit: hard.budget.amount,
+                    spend: parseFloat(hard.spend.toFixed(4)),
+                    resets_at: resetsAt
+                }
+            });
+        }
+
+        const soft = exhausted.find(({ budget }) => budget.mode === 'soft');
+        if (soft) {
+            console.warn(`💸 Over soft budget "${soft.budget.name}" for ${soft.value}: $${soft.spend.toFixed(4)} of $${soft.budget.amount}`);
+            res.set('x-budget-exceeded', soft.budget.name);
+            req.overBudgetId = soft.budget.id;
+        }
+        req.budgets = applicable;
+        next();
+    } catch (err) {
+        // Like rate limits, budgets fail open rather than take the gateway down
+        console.error('❌ BUDGET ERROR:', err.message);
+        next();
+    }
+};
+
+// The outcome logged for a provider response. Requests that got no response are logged as
+// network_error or timeout instead, and the ones the gateway answered itself with their own
+// outcome (throttled, budget_blocked, cache_hit, circuit_open).
+const classifyResponse = ({ status, isJson, parsed, hasBody, bodyless }) => {
+    if (isJson && hasBody && !parsed) return 'parse_error';
+    if (!isJson && hasBody && !bodyless) return 'non_json';
+    return status < 400 ? 'success' : 'upstream_error';
+};
+
+const recordUsage = async (req, proxyRes, responseData, outcome = proxyRes.statusCode < 400 ? 'success' : 'upstream_error') => {
+    await ensurePricingCache();
+    const provider = req.provider;
+    const endpoint = req.originalUrl || req.url;
+    // The model the upstream reports is authoritative; x-model is only a fallback
+    const reportedModel = provider.extractModel(responseData, endpoint) || req.requestBody?.model;
+    const headerModel = req.headers['x-model'];
+    const rawModel = reportedModel || headerModel || 'unknown';
+    const { model } = canonicalizeModel(rawModel, modelAliases);
+    if (reportedModel && headerModel && canonicalizeModel(headerModel, modelAliases).model !== model) {
+        console.warn(`⚠️  x-model "${headerModel}" does not match the model used ("${reportedModel}"); logging "${model}"`);
+    }
+    const pricingTier = req.headers['x-pricing-tier'] || 'standard';
+    const billable = provider.isBillable({ method: req.method, path: endpoint });
+    const category = provider.detectCategory({ method: req.method, path: endpoint });
+    let { units = 0, variant = null } = provider.extractUnits({
+        category,
+        responseData,
+        requestBody: req.requestBody,
+    }) || {};
+    const toolCalls = provider.extractToolCalls(responseData) || {};
+
+    // Get REAL token counts from the provider response
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cacheWriteTokens = 0;
+    let cacheReadTokens = 0;
+    let reasoningTokens = 0;
+
+    const usage = provider.extractUsage(responseData);
+    if (usage) {
+        ({ inputTokens, outputTokens, cacheWriteTokens, cacheReadTokens, reasoningTokens } = usage);
+        console.log(`✅ Real tokens from ${provider.label}: ${inputTokens} input, ${outputTokens} output, ${reasoningTokens} reasoning, ${cacheWriteTokens} cache write, ${cacheReadTokens} cache read`);
+    } else {
+        // Fallback to headers if usage not in response
+        inputTokens = Number(req.headers['x-input-tokens'] || 0);
+        outputTokens = Number(req.headers['x-output-tokens'] || 0);
+        console.log(`⚠️  Using fallback tokens: ${inputTokens} input, ${outputTokens} output`);
+    }
+    if (req.rateLimits) {
+        const totalTokens = inputTokens + outputTokens + cacheWriteTokens + cacheReadTokens + reasoningTokens;
+        chargeRateLimitTokens(rateLimitStore, req.rateLimits, totalTokens)
+            .catch((err) => console.error('❌ RATE LIMIT ERROR:', err.message));
+    }
+
+    let estimatedCost = billable
+        ? calculateCost(model, inputTokens, outputTokens, pricingTier, category, {
+            cacheWrite: cacheWriteTokens,
+            cacheRead: cacheReadTokens,
+            reasoning: reasoningTokens,
+            units,
+            variant,
+        }) + calculateToolCost(toolCalls, pricingTier)
+        : 0;
+
+    // APIs without model pricing (OCR, maps, SMS) fall back to pricing_rules,
+    // and only successful calls are charged
+    let pricingRuleId = null;
+    const hasModelPricing = Boolean(getPricingRate(model, pricingTier, category, variant));
+    if (billable && !hasModelPricing && proxyRes.statusCode < 400) {
+        const ruleMatch = await applyPricingRule({
+            target: getTarget(req),
+            method: req.method,
+            path: endpoint,
+            responseData,
+        });
+        if (ruleMatch) {
+            ({ units } = ruleMatch);
+            estimatedCost += ruleMatch.cost;
+            pricingRuleId = ruleMatch.rule.id;
+            console.log(`📐 Pricing rule "${ruleMatch.rule.name}": ${units} unit(s) = $${ruleMatch.cost.toFixed(4)}`);
+        }
+    }
+
+    // The "thinking" share of estimated_cost, so dashboards can split it out
+    const reasoningCost = billable
+        ? calculateCost(model, 0, 0, pricingTier, category, { reasoning: reasoningTokens })
+        : 0;
+    if (units || Object.keys(toolCalls).length) {
+        console.log(`🧾 ${category}: ${units} unit(s)${variant ? ` @ ${variant}` : ''}, tool calls: ${JSON.stringify(toolCalls)}`);
+    }
+    if (req.budgets) addBudgetSpend(req.budgets, estimatedCost);
+
+    const caller = getCallerIdentity(req);
+    usageLogQueue.enqueue({
+        user_id: caller.userId,
+        service_name: caller.serviceName,
+        gateway_key_id: caller.gatewayKeyId,
+        over_budget_id: req.overBudgetId || null,
+        provider_credential_id: req.providerCredential?.id || null,
+        provider_organization: req.providerCredential?.organization || null,
+        ...getAttemptFields(req),
+        endpoint,
+        status_code: proxyRes.statusCode,
+        outcome,
+        latency_ms: Date.now() - req.startTime,
+        model,
+        raw_model: rawModel,
+        pricing_tier: pricingTier,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        cache_write_tokens: cacheWriteTokens,
+        cache_read_tokens: cacheReadTokens,
+        reasoning_tokens: reasoningTokens,
+        category,
+        units,
+        unit_variant: variant,
+        tool_calls: toolCalls,
+        pricing_rule_id: pricingRuleId,
+        estimated_cost: estimatedCost,
+        reasoning_cost: reasoningCost
+    });
+    console.log("✅ SUCCESS: Row queued for Supabase");
+    return { model, cost: estimatedCost };
+};
+
+// Observes a text/event-stream response without buffering it, then logs usage on end.
+// The proxy keeps piping the original stream to the caller; we only listen alongside it.
+const captureStreamUsage = (proxyRes, req) => {
+    const contentEncoding = (proxyRes.headers['content-encoding'] || '').toLowerCase();
+    let source = proxyRes;
+    if (contentEncoding === 'gzip') source = proxyRes.pipe(zlib.createGunzip());
+    else if (contentEncoding === 'deflate') source = proxyRes.pipe(zlib.createInflate());
+    else if (contentEncoding === 'br') source = proxyRes.pipe(zlib.createBrotliDecompress());
+
+    const summary = createStreamSummary();
+    let pending = '';
+
+    const consumeBlock = (block) => {
+        const event = parseSseFrame(block);
+        if (event) req.provider.applyStreamEvent(summary, event);
+    };
+
+    source.setEncoding('utf8');
+    source.on('data', (chunk) => {
+        pending += chunk;
+        const blocks = pending.split(SSE_FRAME_SEPARATOR);
+        pending = blocks.pop();
+        blocks.forEach(consumeBlock);
+    });
+    source.on('end', async () => {
+        if (pending.trim()) consumeBlock(pending);
+        const hasUsage = Boolean(summary.usage || summary.usageMetadata);
+        console.log(`📥 Stream finished: ${proxyRes.statusCode} | model: ${summary.model || 'unknown'} | usage: ${hasUsage ? 'yes' : 'no'}`);
+        try {
+            await recordUsage(req, proxyRes, summary);
+        } catch (e) {
+            console.error("❌ STREAM LOG ERROR:", e.message);
+        }
+    });
+    source.on('error', (err) => console.error("❌ STREAM DECODE ERROR:", err.message));
+};
+
+const loadRetryPolicies = async () => {
+    if (Date.now() - retryPoliciesLoadedAt < RETRY_POLICY_CACHE_TTL_MS) return retryPolicies;
+    retryPolicies = (await loadConfigRows(RETRY_POLICIES_TABLE, 'id,name,service_name,target_host,path_pattern,model,max_retries,retry_on,timeout_ms,base_delay_ms,max_delay_ms,retry_non_idempotent,fallbacks')).map(compileRetryPolicy);
+    retryPoliciesLoadedAt = Date.now();
+    return retryPolicies;
+};
+
+// Starts the request's first attempt and finds the retry policy that covers it, if any
+const resolveRetryPolicy = async (req, res, next) => {
+    req.requestId = crypto.randomUUID();
+    req.requestUrl = req.url;
+    req.attempt = { id: req.requestId, number: 1, retries: 0, fallbackIndex: -1, reason: null, translated: false };
+    res.set('x-gateway-request-id', req.requestId);
+
+    try {
+        const target = getTarget(req);
+        const endpoint = req.originalUrl || req.url;
+        req.requestFormat = detectFormat(resolveProvider({ target, path: endpoint }).name, endpoint);
+        req.retryPolicy = matchRetryPolicy(await loadRetryPolicies(), {
+            serviceName: getCallerIdentity(req).serviceName,
+            host: new URL(target).hostname,
+            path: endpoint,
+            model: getRequestedModel(req),
+        });
+    } catch (err) {
+        // Without its policy the request still goes out, just without retries
+        console.error('❌ RETRY POLICY ERROR:', err.message);
+    }
+    next();
+};
+
+// The next usable fallback from `index` on. Fallbacks must be on the allowlist and allowed
+// for the caller's key; switching between OpenAI and Anthropic formats needs a parsed,
+// non-streaming body to translate.
+const planFallback = (req, index) => {
+    const fallbacks = req.retryPolicy.fallbacks;
+    for (let i = index; i < fallbacks.length; i += 1) {
+        const fallback = fallbacks[i];
+        const targetName = NAMED_TARGETS.has(fallback.target.toLowerCase()) ? fallback.target.toLowerCase() : null;
+        const target = targetName ? NAMED_TARGETS.get(targetName) : fallback.target;
+        const host = hostOf(target);
+        if (!host || !ALLOWED_TARGET_HOSTS.some((pattern) => hostMatches(host, pattern)) || !keyAllowsTarget(req, host, targetName)) {
+            console.warn(`⚠️  Skipping fallback ${fallback.target}: not an allowed target`);
+            continue;
+        }
+
+        const format = formatForProvider(resolveProvider({ target }).name);
+        const translated = format !== req.requestFormat;
+        if (translated && (!format || !req.requestFormat || !req.requestBody || req.requestBody.stream)) {
+            console.warn(`⚠️  Skipping fallback ${fallback.target}: request cannot be translated for it`);
+            continue;
+        }
+        // The caller's model name belongs to the other provider, so a translated fallback must name its own
+        if (translated && !fallback.model) {
+            console.warn(`⚠️  Skipping fallback ${fallback.target}: a fallback to another provider needs a model`);
+            continue;
+        }
+        if (fallback.model && !req.requestBody) continue;
+
+        return {
+            id: crypto.randomUUID(),
+            number: req.attempt.number + 1,
+            retries: 0,
+            fallbackIndex: i,
+            reason: 'fallback',
+            target,
+            format,
+            model: fallback.model,
+            translated,
+        };
+    }
+    return null;
+};
+
+// Called after a failed attempt: a status in the policy's retry_on, a network error or a
+// timeout. Schedules a retry after a backoff or, once retries run out, the next fallback.
+// Returns false when the failure should go back to the caller as it is.
+const scheduleNextAttempt = (req, res, failure) => {
+    const policy = req.retryPolicy;
+    if (!policy || res.headersSent || req.socket.destroyed) return false;
+    if (!isRetryableFailure(policy, failure) || !isSafeToRetry(policy, req, failure)) return false;
+    if (!canResendBody(req)) return false;
+
+    const current = req.attempt;
+    const next = current.retries < policy.maxRetries && !failure.circuitOpen
+        ? { ...current, id: crypto.randomUUID(), number: current.number + 1, retries: current.retries + 1, reason: 'retry' }
+        : planFallback(req, current.fallbackIndex + 1);
+    if (!next) return false;
+
+    const retryAfterMs = parseRetryAfter(failure.headers?.['retry-after']);
+    const delayMs = next.reason === 'retry' ? getBackoffDelay(policy, next.retries, retryAfterMs) : 0;
+    const cause = failure.circuitOpen ? 'circuit open' : (failure.error ? failure.error.code : failure.status);
+    console.warn(`🔁 Attempt ${current.number} failed (${cause}); ${next.reason === 'retry' ? 'retrying' : `falling back to ${next.target}${next.model ? ` (${next.model})` : ''}`} in ${delayMs}ms`);
+    setTimeout(() => startAttempt(req, res, next), delayMs);
+    return true;
+};
+
+const startAttempt = async (req, res, attempt) => {
+    // The caller may have given up during the backoff
+    if (req.socket.destroyed) return;
+
+    req.attempt = attempt;
+    if (attempt.reason === 'fallback') {
+        req.target = attempt.target;
+        req.url = attempt.translated ? FORMAT_PATHS[attempt.format] : req.requestUrl;
+        if (req.requestBody && (attempt.translated || attempt.model)) {
+            const model = attempt.model || req.requestBody.model;
+            const body = translateRequest(req.requestBody, req.requestFormat, attempt.format, model);
+            req.rawBody = Buffer.from(JSON.stringify(body));
+        }
+    }
+    if (rejectOpenCircuit(req, res)) return;
+
+    if (VAULT_KEY) {
+        try {
+            const credential = await pickProviderCredential(req);
+            if (credential?.retryAfter) {
+                if (scheduleNextAttempt(req, res, { status: 429, headers: { 'retry-after': String(credential.retryAfter) } })) return;
+                res.set('Retry-After', String(credential.retryAfter));
+                return res.status(429).json({ error: 'All provider keys for this target are rate limited', retry_after: credential.retryAfter });
+            }
+            req.providerCredential = credential;
+        } catch (err) {
+            console.error('❌ PROVIDER CREDENTIAL ERROR:', err.message);
+            return res.status(503).json({ error: 'Unable to load provider credentials' });
+        }
+    }
+
+    apiProxy(req, res, (err) => {
+        console.error('❌ PROXY ERROR:', err.message);
+        if (!res.headersSent) res.status(502).json({ error: 'Unable to reach the upstream' });
+    });
+};
+
+// A failed attempt is logged once its body is read, by which time the next attempt may have
+// replaced the per-attempt state on req; logging works from this copy instead
+const snapshotAttempt = (req) => Object.assign(Object.create(req), {
+    attempt: req.attempt,
+    target: req.target,
+    startTime: req.startTime,
+    provider: req.provider,
+    providerCredential: req.providerCredential,
+});
+
+// Refuses an attempt straight away when its host's circuit is open: on to the next fallback
+// if the retry policy has one, otherwise a 503 from the gateway. Returns true when refused.
+const rejectOpenCircuit = (req, res) => {
+    if (!CIRCUIT_BREAKER_ENABLED) return false;
+    const host = hostOf(getTarget(req));
+    const circuit = circuitBreaker.check(host);
+    if (circuit.allowed) return false;
+
+    const retryAfter = Math.max(Math.ceil(circuit.retryAfterMs / 1000), 1);
+    console.warn(`🔌 Circuit ${circuit.state} for ${host}; failing fast`);
+    logGatewayResponse(req, { status: 503, outcome: 'circuit_open', model: req.attempt?.model || getRequestedModel(req) });
+    if (scheduleNextAttempt(req, res, { circuitOpen: true })) return true;
+
+    setAttemptHeaders(req, res);
+    res.set('Retry-After', String(retryAfter));
+    res.status(503).json({
+        error: `Upstream ${host} is failing; the gateway is not sending requests to it for now`,
+        circuit: circuit.state,
+        retry_after: retryAfter
+    });
+    return true;
+};
+
+const enforceCircuitBreaker = (req, res, next) => {
+    if (!rejectOpenCircuit(req, res)) next();
+};
+
+// Feeds an attempt's result to its host's circuit breaker
+const recordCircuitOutcome = (req, outcome) => {
+    if (!CIRCUIT_BREAKER_ENABLED) return;
+    const host = hostOf(getTarget(req));
+    const { state, changed } = circuitBreaker.record(host, {
+        ...outcome,
+        latencyMs: req.startTime ? Date.now() - req.startTime : 0,
+    });
+    if (changed) console.warn(`🔌 Circuit for ${host} is now ${state.replace('_', '-')}`);
+};
+
+// Lets the caller see when an answer took more than one attempt
+const setAttemptHeaders = (req, res) => {
+    if (!req.attempt || req.attempt.number === 1) return;
+    res.setHeader('x-gateway-attempts', String(req.attempt.number));
+    if (req.attempt.fallbackIndex >= 0) {
+        res.setHeader('x-gateway-fallback', req.attempt.model || hostOf(req.attempt.target));
+    }
+};
+
+// Connection-level headers belong to the upstream socket, not the caller's
+const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer']);
+
+const sendUpstreamResponse = (req, res, proxyRes) => {
+    Object.entries(proxyRes.headers)
+        .filter(([name]) => !HOP_BY_HOP_HEADERS.has(name))
+        .forEach(([name, value]) => res.setHeader(name, value));
+    setAttemptHeaders(req, res);
+    res.writeHead(proxyRes.statusCode, proxyRes.statusMessage);
+    proxyRes.pipe(res);
+};
+
+// Answers in the caller's format after a fallback to a provider with a different one
+const sendTranslatedResponse = (req, res, proxyRes, parsed) => {
+    setAttemptHeaders(req, res);
+    if (!parsed) {
+        res.status(502).json({ error: `Fallback to ${hostOf(req.attempt.target)} returned a response that could not be translated` });
+        return null;
+    }
+    const body = JSON.stringify(translateResponse(parsed, req.attempt.format, req.requestFormat));
+    res.status(proxyRes.statusCode).type('application/json').send(body);
+    return body;
+};
+
+// An upstream that drops the connection mid-response never sends 'end': the attempt is
+// logged as a network error and the caller's response is ended rather than left hanging.
+// A caller hanging up is not the upstream's fault; it gets its own outcome, with the 499
+// nginx uses for a client that closed the request.
+const watchForCutOff = (proxyRes, req, res, { attemptReq, retrying }) => {
+    proxyRes.on('close', () => {
+        if (proxyRes.complete) return;
+        if (req.socket.destroyed) {
+            console.warn(`⚠️  Caller hung up before the response from ${hostOf(getTarget(attemptReq))} was complete`);
+            logGatewayResponse(attemptReq, {
+                status: 499,
+                outcome: 'client_aborted',
+                latency_ms: Date.now() - attemptReq.startTime,
+                model: getRequestedModel(attemptReq),
+            });
+            return;
+        }
+        console.error(`❌ UPSTREAM ERROR: response from ${hostOf(getTarget(attemptReq))} was cut off`);
+        logGatewayResponse(attemptReq, {
+            status: proxyRes.statusCode,
+            outcome: 'network_error',
+            latency_ms: Date.now() - attemptReq.startTime,
+            model: getRequestedModel(attemptReq),
+        });
+        if (retrying) return;
+        if (res.headersSent) res.destroy();
+        else res.status(502).json({ error: 'The upstream connection dropped before the response was complete' });
+    });
+};
+
+// A caller hanging up before the upstream's response headers never reaches watchForCutOff:
+// the upstream request is dropped, http-proxy swallows the ECONNRESET that causes, and the
+// attempt is logged as client_aborted here. Once the upstream answers or fails, the other
+// handlers log the attempt instead.
+const watchForEarlyHangUp = (proxyReq, req, res) => {
+    const attemptReq = snapshotAttempt(req);
+    const onClose = () => {
+        if (res.writableFinished) return;
+        console.warn(`⚠️  Caller hung up before ${hostOf(getTarget(attemptReq))} responded`);
+        logGatewayResponse(attemptReq, {
+            status: 499,
+            outcome: 'client_aborted',
+            latency_ms: Date.now() - attemptReq.startTime,
+            model: getRequestedModel(attemptReq),
+        });
+        proxyReq.destroy();
+    };
+    res.once('close', onClose);
+    const stopWatching = () => res.off('close', onClose);
+    proxyReq.once('response', stopWatching);
+    proxyReq.once('error', stopWatching);
+};
+
+const proxyOptions = {
     router: (req) => {
-        return req.headers['x-target-url'] || process.env.PROXY_TARGET;
+        return getTarget(req);
     },
     changeOrigin: true,
+    // Responses are only sent once we know no retry or fallback will follow
+    selfHandleResponse: true,
     // We will remove pathRewrite for a second to see what's happening
     on: {
-        proxyReq: (proxyReq, req) => {
+        proxyReq: (proxyReq, req, res) => {
             req.startTime = Date.now();
-            const target = req.headers['x-target-url'] || process.env.PROXY_TARGET;
+            // The gateway key is ours; never forward it upstream
+            proxyReq.removeHeader('x-gateway-key');
+            proxyReq.removeHeader('x-cache-bypass');
+            const target = getTarget(req);
+            req.provider = resolveProvider({ target, path: req.originalUrl || req.url });
+            // Provider keys come from the vault; whatever the caller sent is dropped, except on
+            // hosts the vault can't hold keys for (Vertex AI). A caller's key is never sent to a
+            // fallback provider in another format: it belongs to the first one.
+            const vaultManaged = Boolean(getProviderAuth(req.provider, target));
+            if ((VAULT_KEY && (req.providerCredential || (vaultManaged && !ALLOW_CALLER_PROVIDER_KEYS))) || req.attempt?.translated) {
+                stripCallerCredentials(proxyReq);
+            }
+            if (req.attempt?.translated) {
+                if (req.attempt.format === 'anthropic' && !proxyReq.getHeader('anthropic-version')) {
+                    proxyReq.setHeader('anthropic-version', ANTHROPIC_API_VERSION);
+                }
+                if (req.attempt.format === 'openai') {
+                    proxyReq.removeHeader('anthropic-version');
+                    proxyReq.removeHeader('anthropic-beta');
+                }
+            }
+            if (req.providerCredential) {
+                Object.entries(req.providerCredential.headers).forEach(([name, value]) => proxyReq.setHeader(name, value));
+            }
+            if (req.rawBody) {
+                proxyReq.removeHeader('transfer-encoding');
+                proxyReq.setHeader('content-length', req.rawBody.length);
+                proxyReq.write(req.rawBody);
+            }
+            // Only the wait for response headers is timed, so long streams are not cut off
+            if (req.retryPolicy?.timeoutMs) {
+                const timeoutMs = req.retryPolicy.timeoutMs;
+                proxyReq.setTimeout(timeoutMs, () => {
+                    const err = new Error(`Upstream did not respond within ${timeoutMs}ms`);
+                    err.code = 'ETIMEDOUT';
+                    proxyReq.destroy(err);
+                });
+                proxyReq.once('response', () => proxyReq.setTimeout(0));
+            }
+            watchForEarlyHangUp(proxyReq, req, res);
             // DEBUG: See the exact URL being sent to the target
             console.log(`📡 Proxying: ${req.method} ${req.url} -> ${target}${proxyReq.path}`);
         },
         proxyRes: async (proxyRes, req, res) => {
+            coolDownCredential(req, proxyRes);
+            const attemptReq = snapshotAttempt(req);
+            recordCircuitOutcome(attemptReq, { status: proxyRes.statusCode });
+            // A failed attempt that is retried is still read and logged, but never sent on
+            const retrying = scheduleNextAttempt(req, res, { status: proxyRes.statusCode, headers: proxyRes.headers });
+            const translating = !retrying && Boolean(req.attempt?.translated);
+            if (!retrying && !translating) sendUpstreamResponse(req, res, proxyRes);
+            watchForCutOff(proxyRes, req, res, { attemptReq, retrying });
+
+            if (proxyRes.headers['content-type']?.includes('text/event-stream')) {
+                captureStreamUsage(proxyRes, attemptReq);
+                return;
+            }
+
             let body = [];
             proxyRes.on('data', (chunk) => body.push(chunk));
             proxyRes.on('end', async () => {
@@ -165,95 +1450,179 @@ const apiProxy = createProxyMiddleware({
                 
                 console.log(`📥 Response: ${proxyRes.statusCode} | Content-Type: ${proxyRes.headers['content-type']} | Content-Encoding: ${contentEncoding || 'none'}`);
 
-                if (proxyRes.headers['content-type']?.includes('application/json')) {
+                const isJson = Boolean(proxyRes.headers['content-type']?.includes('application/json'));
+                let parsed = null;
+                if (isJson && rawBody.trim()) {
                     try {
-                        await ensurePricingCache();
-                        const responseData = JSON.parse(rawBody);
-                        const model = req.headers['x-model'] || responseData.model || 'unknown';
-                        const pricingTier = req.headers['x-pricing-tier'] || 'standard';
-                        
-                        // Get REAL token counts from OpenAI response
-                        let inputTokens = 0;
-                        let outputTokens = 0;
-                        
-                        if (responseData.usage) {
-                            inputTokens = responseData.usage.prompt_tokens || 0;
-                            outputTokens = responseData.usage.completion_tokens || 0;
-                            console.log(`✅ Real tokens from OpenAI: ${inputTokens} input, ${outputTokens} output`);
-                        } else {
-                            // Fallback to headers if usage not in response
-                            inputTokens = Number(req.headers['x-input-tokens'] || 0);
-                            outputTokens = Number(req.headers['x-output-tokens'] || 0);
-                            console.log(`⚠️  Using fallback tokens: ${inputTokens} input, ${outputTokens} output`);
-                        }
-                        
-                        const estimatedCost = calculateCost(model, inputTokens, outputTokens, pricingTier, 'text');
-
-                        const { error } = await supabase.from('api_usage_logs').insert({
-                            user_id: req.headers['x-user-id'] || 'test_user',
-                            service_name: req.headers['x-service-name'] || 'Unknown Service',
-                            endpoint: req.originalUrl || req.url,
-                            status_code: proxyRes.statusCode,
-                            latency_ms: Date.now() - req.startTime,
-                            model,
-                            input_tokens: inputTokens,
-                            output_tokens: outputTokens,
-                            estimated_cost: estimatedCost
-                        });
-                        if (!error) console.log("✅ SUCCESS: Row added to Supabase");
-                        else console.error("❌ SUPABASE ERROR:", error.message);
+                        parsed = JSON.parse(rawBody);
                     } catch (e) {
                         console.error("❌ PARSE ERROR:", e.message);
                     }
-                } else {
-                    console.log("⚠️ Skipping Log: Not a JSON response.");
                 }
+                const cachedBody = translating ? sendTranslatedResponse(req, res, proxyRes, parsed) : rawBody;
+
+                // Every response is logged; bodies we can't read are logged without usage
+                const outcome = classifyResponse({
+                    status: proxyRes.statusCode,
+                    isJson,
+                    parsed,
+                    hasBody: Boolean(rawBody.trim()),
+                    bodyless: BODYLESS_CATEGORIES.has(attemptReq.provider.detectCategory({ method: req.method, path: req.originalUrl || req.url })),
+                });
+                if (outcome === 'non_json' || outcome === 'parse_error') {
+                    console.log(`⚠️ Logging without usage: ${outcome === 'non_json' ? 'not a JSON response' : 'unreadable JSON'}`);
+                }
+                try {
+                    const responseData = Array.isArray(parsed) ? summarizeChunks(attemptReq.provider, parsed) : (parsed || {});
+                    const usage = await recordUsage(attemptReq, proxyRes, responseData, outcome);
+                    if (parsed && !retrying && cachedBody) storeCachedResponse(req, proxyRes, cachedBody, usage);
+                } catch (e) {
+                    console.error("❌ LOG ERROR:", e.message);
+                }
+            });
+        },
+        // Connection failures and timeouts: logged as their own attempt, then retried or
+        // answered with a 502/504 (this replaces http-proxy-middleware's default error page)
+        error: (err, req, res) => {
+            const timedOut = err.code === 'ETIMEDOUT';
+            const status = timedOut ? 504 : 502;
+            console.error(`❌ UPSTREAM ${timedOut ? 'TIMEOUT' : 'ERROR'}: ${err.code || ''} ${err.message}`);
+            recordCircuitOutcome(req, { error: err });
+            logGatewayResponse(req, {
+                status,
+                outcome: timedOut ? 'timeout' : 'network_error',
+                latency_ms: req.startTime ? Date.now() - req.startTime : 0,
+                model: req.attempt?.model || getRequestedModel(req),
             });
+            if (scheduleNextAttempt(req, res, { error: err })) return;
+
+            if (res.headersSent) {
+                // Too late for an error response; cut the connection so the caller notices
+                res.destroy();
+                return;
+            }
+            setAttemptHeaders(req, res);
+            res.status(status).json({ error: timedOut ? 'Upstream timed out' : `Unable to reach the upstream (${err.code || err.message})` });
         }
     }
-});
+};
+
+// One proxy per upstream protocol, each with an agent whose DNS lookup refuses private
+// addresses at connect time
+const safeAgents = createSafeAgents(isTrustedPrivateHost);
+const httpsProxy = createProxyMiddleware({ ...proxyOptions, agent: safeAgents.https });
+const httpProxy = createProxyMiddleware({ ...proxyOptions, agent: safeAgents.http });
+const apiProxy = (req, res, next) => {
+    const proxy = new URL(getTarget(req)).protocol === 'http:' ? httpProxy : httpsProxy;
+    return proxy(req, res, next);
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const USAGE_FILTER_PARAMS = {
+    service_name: 'serviceName',
+    user_id: 'userId',
+    model: 'model',
+    endpoint: 'endpoint',
+};
+
+// Reads the filters of /api/usage and /api/services. `from` and `to` take a UTC date
+// (YYYY-MM-DD, `to` includes that whole day) or an ISO timestamp (`to` excluded); `status` takes
+// a code (429) or a class (5xx). Returns { error } for the first invalid parameter.
+const parseUsageFilters = (query) => {
+    const filters = {};
+    const given = (name) => {
+        const value = query[name];
+        if (value === undefined || value === '') return undefined;
+        if (typeof value !== 'string') throw new Error(`\`${name}\` can only be given once`);
+        return value;
+    };
+    const parseBound = (name) => {
+        const value = given(name);
+        if (value === undefined) return undefined;
+        const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+        // Date accepts e.g. 2026-02-30 by rolling it over, so dates must survive a round trip
+        const valid = DATE_ONLY.test(value)
+            ? !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+            : ISO_TIMESTAMP.test(value) && !Number.isNaN(date.getTime());
+        if (!valid) throw new Error(`\`${name}\` must be a date (YYYY-MM-DD) or an ISO timestamp`);
+        if (name === 'to' && DATE_ONLY.test(value)) date.setUTCDate(date.getUTCDate() + 1);
+        return date;
+    };
+
+    try {
+        const from = parseBound('from');
+        const to = parseBound('to');
+        if (from && to && from >= to) throw new Error('`from` must be before `to`');
+        if (from) filters.from = from.toISOString();
+        if (to) filters.to = to.toISOString();
+
+        const status = given('status');
+        if (status !== undefined) {
+            const match = /^([1-5])(\d\d|xx)$/i.exec(status);
+            if (!match) throw new Error('`status` must be a status code (e.g. 429) or a class (e.g. 5xx)');
+            const exact = match[2].toLowerCase() !== 'xx';
+            filters.statusMin = exact ? Number(status) : Number(match[1]) * 100;
+            filters.statusMax = exact ? Number(status) : Number(match[1]) * 100 + 99;
+        }
+
+        for (const [param, key] of Object.entries(USAGE_FILTER_PARAMS)) {
+            const value = given(param);
+            if (value !== undefined) filters[key] = value;
+        }
+    } catch (err) {
+        return { error: err.message };
+    }
+    return { filters };
+};
+
+const SERVICES_PAGE_SIZE = 500;
+
+// Reads `limit` (1 and up, capped at SERVICES_PAGE_SIZE) and `offset` (0 and up) of
+// /api/services. Returns { error } for a value that isn't a whole number in range.
+const parsePage = (query) => {
+    const parseCount = (name, fallback, min) => {
+        const value = query[name];
+        if (value === undefined || value === '') return fallback;
+        if (typeof value !== 'string') throw new Error(`\`${name}\` can only be given once`);
+        if (!/^\d+$/.test(value) || Number(value) < min) {
+            throw new Error(`\`${name}\` must be a whole number of at least ${min}`);
+        }
+        return Number(value);
+    };
+
+    try {
+        return {
+            limit: Math.min(parseCount('limit', SERVICES_PAGE_SIZE, 1), SERVICES_PAGE_SIZE),
+            offset: parseCount('offset', 0, 0),
+        };
+    } catch (err) {
+        return { error: err.message };
+    }
+};
 
 // API endpoint for usage data
 app.get('/api/usage', async (req, res) => {
+    const { filters, error: filterError } = parseUsageFilters(req.query);
+    if (filterError) return res.status(400).json({ error: filterError });
+
     try {
-        const { data, error } = await supabase
-            .from('api_usage_logs')
-            .select('*')
-            .order('created_at', { ascending: true });
-        
-        if (error) throw error;
-        
-        // Transform raw logs into daily aggregated data
-        const dailyData = {};
+        // Daily totals are summed in the database (usage_daily); only the running total is added here
+        const days = await storage.usage.dailyUsage(filters);
         let accumulativeTotal = 0;
-        
-        data.forEach(log => {
-            const date = new Date(log.created_at).toISOString().split('T')[0];
-            if (!dailyData[date]) {
-                dailyData[date] = {
-                    day: date,
-                    daily_hits: 0,
-                    daily_cost: 0,
-                    accumulative_total: 0
-                };
-            }
-            dailyData[date].daily_hits += 1;
-            // Estimate cost based on latency and endpoint
-            dailyData[date].daily_cost += Number(log.estimated_cost || 0);
+        const result = days.map((day) => {
+            accumulativeTotal += Number(day.daily_hits);
+            return {
+                day: day.day,
+                daily_hits: Number(day.daily_hits),
+                daily_cost: parseFloat(Number(day.daily_cost || 0).toFixed(3)),
+                daily_output_tokens: Number(day.daily_output_tokens || 0),
+                daily_reasoning_tokens: Number(day.daily_reasoning_tokens || 0),
+                daily_reasoning_cost: parseFloat(Number(day.daily_reasoning_cost || 0).toFixed(3)),
+                accumulative_total: accumulativeTotal
+            };
         });
-        
-        // Calculate accumulative totals and convert to array
-        const result = Object.values(dailyData)
-            .sort((a, b) => new Date(a.day) - new Date(b.day))
-            .map(day => {
-                accumulativeTotal += day.daily_hits;
-                return {
-                    ...day,
-                    accumulative_total: accumulativeTotal,
-                    daily_cost: parseFloat(day.daily_cost.toFixed(3))
-                };
-            });
-        
+
         res.json(result);
     } catch (error) {
         console.error('Error fetching usage:', error);
@@ -261,97 +1630,636 @@ app.get('/api/usage', async (req, res) => {
     }
 });
 
+// Prices the zero-cost buckets returned by usage_by_service at the rates in effect that day
+const priceUnpricedBuckets = (buckets = []) => buckets.reduce((totals, bucket) => {
+    // Each bucket lists the tool calls of its rows separately
+    const toolCalls = {};
+    (bucket.tool_calls || []).forEach((calls) => {
+        Object.entries(calls || {}).forEach(([tool, count]) => {
+            toolCalls[tool] = (toolCalls[tool] || 0) + Number(count || 0);
+        });
+    });
+    const { cost } = calculateLogCost({ ...bucket, tool_calls: toolCalls });
+    totals.cost += cost;
+    if (bucket.retry) totals.retryCost += cost;
+    return totals;
+}, { cost: 0, retryCost: 0 });
+
 // API endpoint for service breakdown
 app.get('/api/services', async (req, res) => {
+    const { filters, error: filterError } = parseUsageFilters(req.query);
+    if (filterError) return res.status(400).json({ error: filterError });
+    const { limit, offset, error: pageError } = parsePage(req.query);
+    if (pageError) return res.status(400).json({ error: pageError });
+
+    try {
+        await ensurePricingCache();
+
+        // Grouped, sorted and paginated in the database (usage_by_service)
+        const groups = await storage.usage.usageByService({ offset, limit, ...filters });
+
+        const result = groups.map((group) => {
+            const totalHits = Number(group.total_hits);
+            const successCount = Number(group.success_count);
+            const totalLatency = Number(group.total_latency || 0);
+            const inputTokens = Number(group.total_input_tokens || 0);
+            const outputTokens = Number(group.total_output_tokens || 0);
+            const cacheWriteTokens = Number(group.total_cache_write_tokens || 0);
+            const cacheReadTokens = Number(group.total_cache_read_tokens || 0);
+            const reasoningTokens = Number(group.total_reasoning_tokens || 0);
+            const promptTokens = inputTokens + cacheWriteTokens + cacheReadTokens;
+            // Unpriced rows are priced at the rate in effect when they were logged
+            const repriced = priceUnpricedBuckets(group.unpriced);
+            return {
+                service_name: group.service_name,
+                endpoint: group.endpoint,
+                user_id: group.user_id,
+                total_hits: totalHits,
+                success_count: successCount,
+                error_count: totalHits - successCount,
+                avg_latency: totalHits > 0 ? Math.round(totalLatency / totalHits) : 0,
+                total_latency: totalLatency,
+                last_used: group.last_used,
+                estimated_cost: parseFloat((Number(group.stored_cost || 0) + repriced.cost).toFixed(4)),
+                total_input_tokens: inputTokens,
+                total_output_tokens: outputTokens,
+                total_cache_write_tokens: cacheWriteTokens,
+                total_cache_read_tokens: cacheReadTokens,
+                total_reasoning_tokens: reasoningTokens,
+                reasoning_cost: parseFloat(Number(group.reasoning_cost || 0).toFixed(4)),
+                throttled_count: Number(group.throttled_count),
+                budget_blocked_count: Number(group.budget_blocked_count),
+                cache_hits: Number(group.cache_hits),
+                cost_avoided: parseFloat(Number(group.cost_avoided || 0).toFixed(4)),
+                // Retries and fallbacks are logged as child rows of the first attempt
+                retry_attempts: Number(group.retry_attempts),
+                retry_cost: parseFloat((Number(group.retry_stored_cost || 0) + repriced.retryCost).toFixed(4)),
+                success_rate: totalHits > 0
+                    ? ((successCount / totalHits) * 100).toFixed(1)
+                    : 0,
+                // Share of prompt tokens served from the provider's prompt cache
+                cache_hit_rate: promptTokens > 0
+                    ? ((cacheReadTokens / promptTokens) * 100).toFixed(1)
+                    : 0,
+                total_tokens: promptTokens + outputTokens + reasoningTokens
+            };
+        });
+
+        res.json(result);
+    } catch (error) {
+        console.error('Error fetching services:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// API endpoint listing models seen in the logs that have no pricing, so gaps can be fixed
+app.get('/api/pricing/unpriced-models', async (req, res) => {
     try {
         await ensurePricingCache();
-        const limit = Math.min(Number(req.query.limit || 500), 500);
-        const offset = Math.max(Number(req.query.offset || 0), 0);
+        // Counted per model and day in the database (model_usage_by_day)
+        const groups = await storage.usage.modelUsageByDay({ skipOutcomes: NO_RESPONSE_OUTCOMES });
+
+        const unpriced = [];
+        groups.forEach(({ model, tier, category, days }) => {
+            // A day is unpriced when no rate covers its last request, as on /api/services
+            const unpricedDays = (days || []).filter((day) => !getPricingRate(model, tier, category, null, day.last_seen));
+            if (!unpricedDays.length) return;
+            unpriced.push({
+                model,
+                category,
+                tier,
+                raw_models: [...new Set(unpricedDays.flatMap((day) => day.raw_models || []))],
+                hits: unpricedDays.reduce((sum, day) => sum + Number(day.hits), 0),
+                first_seen: new Date(unpricedDays[0].first_seen).toISOString(),
+                last_seen: new Date(unpricedDays[unpricedDays.length - 1].last_seen).toISOString()
+            });
+        });
+
+        res.json(unpriced.sort((a, b) => b.hits - a.hits));
+    } catch (error) {
+        console.error('Error fetching unpriced models:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// 3. Admin endpoints
+const requireAdmin = (req, res, next) => {
+    const adminKey = process.env.ADMIN_API_KEY || '';
+    const provided = String(req.headers['x-admin-key'] || '');
+    // Digests have a fixed length, so non-ASCII or wrong-length keys compare safely too
+    const digest = (value) => crypto.createHash('sha256').update(value).digest();
+    const matches = adminKey.length > 0
+        && crypto.timingSafeEqual(digest(provided), digest(adminKey));
+    if (!matches) return res.status(401).json({ error: 'A valid x-admin-key header is required' });
+    next();
+};
+
+// Gateway keys, provider credentials and alert rules are managed in Supabase only
+const requireSupabase = (req, res, next) => {
+    if (!supabase) return res.status(503).json({ error: 'This needs Supabase (set SUPABASE_URL and SUPABASE_KEY)' });
+    next();
+};
+
+const BACKFILL_PAGE_SIZE = 1000;
+// Finished jobs stay readable for an hour
+const BACKFILL_JOB_TTL_MS = 60 * 60 * 1000;
+const backfillJobs = new Map();
 
-        // Fetch ALL records to aggregate properly, then paginate
+const sweepBackfillJobs = () => {
+    const cutoff = Date.now() - BACKFILL_JOB_TTL_MS;
+    backfillJobs.forEach((job, id) => {
+        if (job.finished_at && new Date(job.finished_at).getTime() < cutoff) backfillJobs.delete(id);
+    });
+};
+
+// Recomputes estimated_cost for every log in [from, to) at the rate valid at its created_at.
+// Rule-priced rows depend on monthly volume at the time and are left untouched.
+const runCostBackfill = async (job) => {
+    await ensurePricingCache();
+    for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+        const data = await storage.usage.listLogs({
+            since: job.from,
+            until: job.to,
+            orderBy: 'id',
+            offset,
+            limit: BACKFILL_PAGE_SIZE,
+        });
+
+        for (const log of data) {
+            const before = Number(log.estimated_cost || 0);
+            job.scanned += 1;
+            job.before_total += before;
+
+            if (log.pricing_rule_id) {
+                job.skipped += 1;
+                job.after_total += before;
+                continue;
+            }
+
+            const { cost, reasoningCost } = calculateLogCost(log);
+            job.after_total += cost;
+            const changed = Math.abs(cost - before) > 1e-9
+                || Math.abs(reasoningCost - Number(log.reasoning_cost || 0)) > 1e-9;
+            if (!changed) continue;
+
+            job.changed += 1;
+            if (job.dry_run) continue;
+            await storage.usage.updateLog(log.id, { estimated_cost: cost, reasoning_cost: reasoningCost });
+        }
+
+        if (data.length < BACKFILL_PAGE_SIZE) break;
+    }
+};
+
+const formatBackfillJob = (job) => ({
+    ...job,
+    before_total: parseFloat(job.before_total.toFixed(6)),
+    after_total: parseFloat(job.after_total.toFixed(6)),
+    delta: parseFloat((job.after_total - job.before_total).toFixed(6)),
+});
+
+// Starts a cost backfill job: { from, to, dry_run }
+app.post('/api/admin/backfill-costs', requireAdmin, (req, res) => {
+    const { from, to, dry_run: dryRun = false } = req.body || {};
+    const fromDate = new Date(from);
+    const toDate = to ? new Date(to) : new Date();
+    if (!from || Number.isNaN(fromDate.getTime()) || Number.isNaN(toDate.getTime())) {
+        return res.status(400).json({ error: '`from` and `to` must be valid dates' });
+    }
+    if (fromDate >= toDate) {
+        return res.status(400).json({ error: '`from` must be before `to`' });
+    }
+
+    const job = {
+        id: crypto.randomUUID(),
+        status: 'running',
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+        dry_run: Boolean(dryRun),
+        started_at: new Date().toISOString(),
+        finished_at: null,
+        scanned: 0,
+        changed: 0,
+        skipped: 0,
+        before_total: 0,
+        after_total: 0,
+        error: null,
+    };
+    sweepBackfillJobs();
+    backfillJobs.set(job.id, job);
+    console.log(`🔁 Backfill ${job.id} started: ${job.from} -> ${job.to}${job.dry_run ? ' (dry run)' : ''}`);
+
+    runCostBackfill(job)
+        .then(() => {
+            job.status = 'completed';
+            console.log(`✅ Backfill ${job.id} done: ${job.changed}/${job.scanned} rows changed`);
+        })
+        .catch((err) => {
+            job.status = 'failed';
+            job.error = err.message;
+            console.error(`❌ Backfill ${job.id} failed:`, err.message);
+        })
+        .finally(() => {
+            job.finished_at = new Date().toISOString();
+        });
+
+    res.status(202).json({ ...formatBackfillJob(job), status_url: `/api/admin/backfill-costs/${job.id}` });
+});
+
+app.get('/api/admin/backfill-costs/:id', requireAdmin, (req, res) => {
+    sweepBackfillJobs();
+    const job = backfillJobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Backfill job not found' });
+    res.json(formatBackfillJob(job));
+});
+
+// Issues a gateway key bound to a service and client: { name, service_name, user_id, expires_at }
+app.post('/api/admin/gateway-keys', requireAdmin, requireSupabase, async (req, res) => {
+    try {
+        const {
+            name,
+            service_name: serviceName,
+            user_id: userId,
+            expires_at: expiresAt,
+            allowed_targets: allowedTargets = []
+        } = req.body || {};
+        if (!serviceName || !userId) {
+            return res.status(400).json({ error: '`service_name` and `user_id` are required' });
+        }
+        if (expiresAt && Number.isNaN(new Date(expiresAt).getTime())) {
+            return res.status(400).json({ error: '`expires_at` must be a valid date' });
+        }
+        if (!Array.isArray(allowedTargets) || allowedTargets.some((target) => typeof target !== 'string')) {
+            return res.status(400).json({ error: '`allowed_targets` must be an array of hosts or named targets' });
+        }
+
+        const key = generateGatewayKey();
+        const { data, error } = await supabase
+            .from(GATEWAY_KEYS_TABLE)
+            .insert({
+                name: name || `${serviceName} (${userId})`,
+                key_hash: hashGatewayKey(key),
+                key_prefix: displayPrefix(key),
+                service_name: serviceName,
+                user_id: userId,
+                expires_at: expiresAt || null,
+                allowed_targets: allowedTargets,
+                active: true
+            })
+            .select('id,name,key_prefix,service_name,user_id,allowed_targets,expires_at,created_at')
+            .single();
+
+        if (error) throw error;
+        console.log(`🔑 Issued gateway key ${data.key_prefix}… for ${serviceName} (${userId})`);
+        // The plaintext key is only ever returned here
+        res.status(201).json({ ...data, key });
+    } catch (error) {
+        console.error('Error issuing gateway key:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/admin/gateway-keys', requireAdmin, requireSupabase, async (req, res) => {
+    try {
         const { data, error } = await supabase
-            .from('api_usage_logs')
-            .select('*')
+            .from(GATEWAY_KEYS_TABLE)
+            .select('id,name,key_prefix,service_name,user_id,allowed_targets,active,revoked_at,expires_at,last_used_at,created_at')
             .order('created_at', { ascending: false });
-        
+
         if (error) throw error;
-        
-        // Group by service and endpoint
-        const serviceBreakdown = {};
-        
-        data.forEach(log => {
-            const serviceName = log.service_name || 'Unknown Service';
-            const endpoint = log.endpoint || '/';
-            const userId = log.user_id || 'Unknown';
-            const key = `${serviceName}::${endpoint}::${userId}`;
-            
-            if (!serviceBreakdown[key]) {
-                serviceBreakdown[key] = {
-                    service_name: serviceName,
-                    endpoint: endpoint,
-                    user_id: userId,
-                    total_hits: 0,
-                    success_count: 0,
-                    error_count: 0,
-                    avg_latency: 0,
-                    total_latency: 0,
-                    last_used: log.created_at,
-                    estimated_cost: 0,
-                    total_input_tokens: 0,
-                    total_output_tokens: 0
-                };
-            }
-            
-            serviceBreakdown[key].total_hits += 1;
-            if (log.status_code >= 200 && log.status_code < 300) {
-                serviceBreakdown[key].success_count += 1;
-            } else {
-                serviceBreakdown[key].error_count += 1;
-            }
-            serviceBreakdown[key].total_latency += log.latency_ms || 0;
-            const inputTokensValue = log.input_tokens ?? log.token_input ?? 0;
-            const outputTokensValue = log.output_tokens ?? log.token_output ?? 0;
-            const storedCost = Number(log.estimated_cost || 0);
-            const computedCost = calculateCost(log.model || 'default', Number(inputTokensValue || 0), Number(outputTokensValue || 0), 'standard', 'text');
-            serviceBreakdown[key].estimated_cost += storedCost > 0 ? storedCost : computedCost;
-            serviceBreakdown[key].total_input_tokens += Number(inputTokensValue || 0);
-            serviceBreakdown[key].total_output_tokens += Number(outputTokensValue || 0);
-            
-            // Keep the most recent timestamp
-            if (new Date(log.created_at) > new Date(serviceBreakdown[key].last_used)) {
-                serviceBreakdown[key].last_used = log.created_at;
-            }
+        res.json(data);
+    } catch (error) {
+        console.error('Error listing gateway keys:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/admin/gateway-keys/:id', requireAdmin, requireSupabase, async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(GATEWAY_KEYS_TABLE)
+            .update({ active: false, revoked_at: new Date().toISOString() })
+            .eq('id', req.params.id)
+            .select('id,key_prefix')
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return res.status(404).json({ error: 'Gateway key not found' });
+
+        // Drop cached copies so the revocation takes effect immediately
+        for (const [keyHash, cached] of gatewayKeyCache) {
+            if (cached.record?.id === data.id) gatewayKeyCache.delete(keyHash);
+        }
+        console.log(`🔒 Revoked gateway key ${data.key_prefix}…`);
+        res.json({ id: data.id, revoked: true });
+    } catch (error) {
+        console.error('Error revoking gateway key:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+const requireVault = (req, res, next) => {
+    if (!VAULT_KEY) return res.status(503).json({ error: 'Credential vault is not configured (set CREDENTIAL_ENCRYPTION_KEY)' });
+    next();
+};
+
+const PROVIDER_CREDENTIAL_FIELDS = 'id,name,target_host,service_name,header_name,header_scheme,organization,weight,secret_hint,active,rotated_at,created_at';
+
+const isValidWeight = (weight) => weight === undefined || (Number.isFinite(Number(weight)) && Number(weight) > 0);
+
+// Stores a provider key: { name, target_host, service_name, secret, header_name, header_scheme,
+// organization, weight }. `service_name` limits the key to one service; leave it out to share it
+// across services. Keys for the same host and service form a pool, shared in proportion to `weight`.
+app.post('/api/admin/provider-credentials', requireAdmin, requireSupabase, requireVault, async (req, res) => {
+    try {
+        const {
+            name,
+            target_host: targetHost,
+            service_name: serviceName,
+            secret,
+            header_name: headerName,
+            header_scheme: headerScheme,
+            organization,
+            weight
+        } = req.body || {};
+        if (!targetHost || typeof secret !== 'string' || !secret) {
+            return res.status(400).json({ error: '`target_host` and `secret` are required' });
+        }
+        if (!isValidWeight(weight)) {
+            return res.status(400).json({ error: '`weight` must be a positive number' });
+        }
+
+        const { data, error } = await supabase
+            .from(PROVIDER_CREDENTIALS_TABLE)
+            .insert({
+                name: name || `${targetHost}${serviceName ? ` (${serviceName})` : ''}`,
+                target_host: String(targetHost).toLowerCase(),
+                service_name: serviceName || null,
+                header_name: headerName || null,
+                header_scheme: headerScheme || null,
+                organization: organization || null,
+                weight: weight === undefined ? 1 : Number(weight),
+                encrypted_secret: encryptSecret(secret, VAULT_KEY),
+                secret_hint: secretHint(secret),
+                active: true
+            })
+            .select(PROVIDER_CREDENTIAL_FIELDS)
+            .single();
+
+        if (error) throw error;
+        providerCredentialsLoadedAt = 0;
+        console.log(`🔐 Stored provider credential ${data.secret_hint} for ${data.target_host}`);
+        res.status(201).json(data);
+    } catch (error) {
+        console.error('Error storing provider credential:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/admin/provider-credentials', requireAdmin, requireSupabase, async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(PROVIDER_CREDENTIALS_TABLE)
+            .select(PROVIDER_CREDENTIAL_FIELDS)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        const now = Date.now();
+        res.json(data.map((credential) => {
+            const coolingUntil = credentialPoolState.get(credential.id)?.coolingUntil || 0;
+            return { ...credential, cooling_until: coolingUntil > now ? new Date(coolingUntil).toISOString() : null };
+        }));
+    } catch (error) {
+        console.error('Error listing provider credentials:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Rotates a provider key in place and/or reweights it in its pool: { secret, weight }.
+// Every service picks the change up within a minute.
+app.put('/api/admin/provider-credentials/:id', requireAdmin, requireSupabase, requireVault, async (req, res) => {
+    try {
+        const { secret, weight } = req.body || {};
+        if (secret !== undefined && (typeof secret !== 'string' || !secret)) {
+            return res.status(400).json({ error: '`secret` must be a non-empty string' });
+        }
+        if (!isValidWeight(weight)) {
+            return res.status(400).json({ error: '`weight` must be a positive number' });
+        }
+        if (secret === undefined && weight === undefined) {
+            return res.status(400).json({ error: 'Send a new `secret`, a `weight`, or both' });
+        }
+
+        const changes = {};
+        if (secret !== undefined) {
+            changes.encrypted_secret = encryptSecret(secret, VAULT_KEY);
+            changes.secret_hint = secretHint(secret);
+            changes.rotated_at = new Date().toISOString();
+        }
+        if (weight !== undefined) changes.weight = Number(weight);
+
+        const { data, error } = await supabase
+            .from(PROVIDER_CREDENTIALS_TABLE)
+            .update(changes)
+            .eq('id', req.params.id)
+            .select(PROVIDER_CREDENTIAL_FIELDS)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return res.status(404).json({ error: 'Provider credential not found' });
+        providerCredentialsLoadedAt = 0;
+        console.log(`🔁 Updated provider credential for ${data.target_host}: ${data.secret_hint}, weight ${data.weight}`);
+        res.json(data);
+    } catch (error) {
+        console.error('Error updating provider credential:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/admin/provider-credentials/:id', requireAdmin, requireSupabase, async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(PROVIDER_CREDENTIALS_TABLE)
+            .update({ active: false })
+            .eq('id', req.params.id)
+            .select('id,target_host')
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return res.status(404).json({ error: 'Provider credential not found' });
+        providerCredentialsLoadedAt = 0;
+        console.log(`🔒 Disabled provider credential for ${data.target_host}`);
+        res.json({ id: data.id, active: false });
+    } catch (error) {
+        console.error('Error disabling provider credential:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// 4. Alerts
+
+// Restores a rule's notification state from alert_events, so a restart doesn't re-page
+const getAlertState = async (ruleId) => {
+    if (alertState.has(ruleId)) return alertState.get(ruleId);
+    const { data, error } = await supabase
+        .from(ALERT_EVENTS_TABLE)
+        .select('status,created_at')
+        .eq('rule_id', ruleId)
+        .eq('delivered', true)
+        .order('created_at', { ascending: false })
+        .limit(50);
+    if (error) throw error;
+    const lastFired = (data || []).find((event) => event.status === 'firing');
+    const state = {
+        firing: data?.[0]?.status === 'firing',
+        lastFiredAt: lastFired ? new Date(lastFired.created_at).getTime() : 0,
+    };
+    alertState.set(ruleId, state);
+    return state;
+};
+
+const evaluateAlert = async (rule) => {
+    const stats = await storage.usage.alertWindowStats({
+        since: new Date(Date.now() - rule.windowMinutes * 60 * 1000).toISOString(),
+        serviceName: rule.serviceName,
+        userId: rule.userId,
+        skipOutcomes: ALERT_EXCLUDED_OUTCOMES,
+    });
+
+    const { value, requests, isFiring } = evaluateAlertRule(rule, stats);
+    const state = await getAlertState(rule.id);
+    const status = nextNotification(rule, state, isFiring);
+    const result = { rule_id: rule.id, name: rule.name, metric: rule.metric, value, threshold: rule.threshold, requests, firing: isFiring, notified: status };
+    if (!status) return result;
+
+    let deliveryError = null;
+    try {
+        await sendWebhook(rule.webhookUrl, buildAlertPayload(rule, status, value));
+        alertState.set(rule.id, {
+            firing: status === 'firing',
+            lastFiredAt: status === 'firing' ? Date.now() : state.lastFiredAt,
         });
-        
-        // Calculate averages and format results
-        const allResults = Object.values(serviceBreakdown).map(service => ({
-            ...service,
-            avg_latency: service.total_hits > 0 
-                ? Math.round(service.total_latency / service.total_hits) 
-                : 0,
-            success_rate: service.total_hits > 0
-                ? ((service.success_count / service.total_hits) * 100).toFixed(1)
-                : 0,
-            estimated_cost: parseFloat(service.estimated_cost.toFixed(4)),
-            total_tokens: (service.total_input_tokens || 0) + (service.total_output_tokens || 0)
-        })).sort((a, b) => b.total_hits - a.total_hits);
-        
-        // Apply pagination to aggregated results
-        const paginatedResult = allResults.slice(offset, offset + limit);
-        
-        res.json(paginatedResult);
+        console.log(`🔔 Alert "${rule.name}" ${status}: ${rule.metric} = ${value.toFixed(2)} (threshold ${rule.threshold})`);
+    } catch (err) {
+        // Not marked as sent, so the next evaluation tries again
+        deliveryError = err.message;
+        console.error(`❌ ALERT WEBHOOK ERROR (${rule.name}):`, err.message);
+    }
+
+    const { error: eventError } = await supabase.from(ALERT_EVENTS_TABLE).insert({
+        rule_id: rule.id,
+        status,
+        value,
+        threshold: rule.threshold,
+        delivered: !deliveryError,
+        error: deliveryError
+    });
+    if (eventError) console.error('❌ ALERT EVENT LOG ERROR:', eventError.message);
+    return { ...result, error: deliveryError };
+};
+
+// Evaluates every active rule; overlapping runs share the one in progress
+const runAlertEvaluation = () => {
+    if (alertEvaluation) return alertEvaluation;
+    alertEvaluation = (async () => {
+        const rows = await loadConfigRows(ALERT_RULES_TABLE, 'id,name,metric,threshold,window_minutes,service_name,user_id,min_requests,webhook_url,format,cooldown_minutes');
+
+        const results = [];
+        for (const rule of rows.map(compileAlertRule)) {
+            if (!ALERT_METRICS.includes(rule.metric) || !rule.webhookUrl) continue;
+            try {
+                results.push(await evaluateAlert(rule));
+            } catch (err) {
+                console.error(`❌ ALERT EVALUATION ERROR (${rule.name}):`, err.message);
+                results.push({ rule_id: rule.id, name: rule.name, error: err.message });
+            }
+        }
+        return results;
+    })().finally(() => {
+        alertEvaluation = null;
+    });
+    return alertEvaluation;
+};
+
+// Runs the alert rules now instead of waiting for the next interval
+app.post('/api/admin/alerts/evaluate', requireAdmin, async (req, res) => {
+    try {
+        res.json(await runAlertEvaluation());
     } catch (error) {
-        console.error('Error fetching services:', error);
+        console.error('Error evaluating alerts:', error);
         res.status(500).json({ error: error.message });
     }
 });
 
+// Sends a sample notification for a rule, to check its webhook and format
+app.post('/api/admin/alerts/:id/test', requireAdmin, requireSupabase, async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(ALERT_RULES_TABLE)
+            .select('id,name,metric,threshold,window_minutes,service_name,user_id,min_requests,webhook_url,format,cooldown_minutes')
+            .eq('id', req.params.id)
+            .maybeSingle();
+        if (error) throw error;
+        if (!data) return res.status(404).json({ error: 'Alert rule not found' });
+
+        const rule = compileAlertRule(data);
+        await sendWebhook(rule.webhookUrl, buildAlertPayload({ ...rule, name: `[Test] ${rule.name}` }, 'firing', rule.threshold));
+        res.json({ rule_id: rule.id, sent: true });
+    } catch (error) {
+        console.error('Error sending test alert:', error);
+        res.status(502).json({ error: error.message });
+    }
+});
+
 // API endpoint for health check
 app.get('/api/health', (req, res) => {
-    res.json({ status: 'ok' });
+    res.json({
+        status: 'ok',
+        circuit_breaker: CIRCUIT_BREAKER_ENABLED,
+        circuits: circuitBreaker.snapshot(),
+        log_queue: usageLogQueue.stats()
+    });
 });
 
 // Switch the route to handle EVERYTHING for testing (proxy)
-app.use('/', apiProxy);
+// Cache hits are answered before rate limits and budgets: they cost nothing upstream
+app.use(
+    '/',
+    authenticateGatewayKey,
+    guardTarget,
+    bufferRequestBody,
+    serveFromCache,
+    enforceRateLimits,
+    enforceBudgets,
+    resolveRetryPolicy,
+    enforceCircuitBreaker,
+    resolveProviderCredential,
+    apiProxy
+);
 const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => console.log(`🚀 Gateway Live on Port ${PORT}`));
\ No newline at end of file
+const server = app.listen(PORT, () => console.log(`🚀 Gateway Live on Port ${PORT}`));
+usageLogQueue.start();
+
+// On a dyno restart: stop taking requests, let in-flight ones finish, then flush queued log
+// rows before exiting. Rows that don't make it stay in the spool and are replayed on the next start.
+const shutdown = async (signal) => {
+    console.log(`🛑 ${signal} received, finishing in-flight requests`);
+    const deadline = Date.now() + SHUTDOWN_DRAIN_MS;
+    await new Promise((resolve) => {
+        server.close(resolve);
+        setTimeout(resolve, SHUTDOWN_DRAIN_MS / 2).unref();
+    });
+    console.log(`🛑 Draining ${usageLogQueue.stats().depth} queued log row(s)`);
+    const left = await usageLogQueue.drain(Math.max(deadline - Date.now(), 0));
+    if (left) console.warn(`⚠️  ${left} log row(s) left in the spool for the next start`);
+    await storage.close();
+    process.exit(0);
+};
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
+
+if (ALERT_INTERVAL_MS > 0) {
+    setInterval(() => {
+        runAlertEvaluation().catch((err) => console.error('❌ ALERT EVALUATION ERROR:', err.message));
+    }, ALERT_INTERVAL_MS);
+}
\ No newline at end of file
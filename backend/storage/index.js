@@ -0,0 +1,58 @@
+import { createSupabaseUsageStore, createSupabasePricingStore } from './supabase.js';
+import { createPostgresPool, createPostgresUsageStore, createPostgresPricingStore } from './postgres.js';
+
+// Where usage logs and prices live. STORAGE_BACKEND=supabase (the default) uses the Supabase
+// project; STORAGE_BACKEND=postgres talks to any Postgres at DATABASE_URL, e.g. a local one
+// set up with `npm run migrate`. Both implement the same two stores:
+//
+// Usage store (api_usage_logs):
+//   insertLogs(rows)     - inserts a batch; throws errors carrying the Postgres/PostgREST `code`
+//   listLogs({ columns, where, since, until, orderBy, ascending, offset, limit })
+//                        - `columns` is a comma-separated list (or '*'), `where` equality
+//                          filters, `since`/`until` bound created_at (inclusive/exclusive)
+//   updateLog(id, changes)
+//   ruleVolume({ ruleId, since })
+//                        - units a pricing rule billed since `since` (migrations/005_...)
+//   budgetSpend({ column, value, since })
+//                        - estimated cost of rows where `column` (user_id, service_name or
+//                          model) equals `value`, since `since` (migrations/007_...)
+//   alertWindowStats({ since, serviceName, userId, skipOutcomes })
+//                        - { requests, errors, spend, tokens, p95_latency } since `since`, for
+//                          one service and/or user; rows with a skipped outcome only count
+//                          toward spend and tokens (migrations/008_alert_window.sql)
+//   modelUsageByDay({ skipOutcomes })
+//                        - requests per model/tier/category, with a `days` array of per UTC day
+//                          hits, first/last seen and raw model names (migrations/006_...)
+//   dailyUsage(filters)  - per UTC day totals, oldest first (migrations/003_usage_aggregates.sql)
+//   usageByService({ offset, limit, ...filters })
+//                        - per service/endpoint/user totals, busiest first, one page
+//   Both take optional filters { from, to, serviceName, userId, model, statusMin, statusMax,
+//   endpoint }: `from`/`to` bound created_at (inclusive/exclusive), the rest match exactly and
+//   the status bounds are inclusive (migrations/004_usage_filters.sql)
+//
+// Pricing store (model_pricing, pricing_rules, model_aliases):
+//   listModelPrices(), listPricingRules() (active only), listModelAliases()
+export const STORAGE_BACKENDS = ['supabase', 'postgres'];
+
+export const createStorage = ({ backend = 'supabase', supabase, databaseUrl }) => {
+    if (backend === 'postgres') {
+        if (!databaseUrl) throw new Error('STORAGE_BACKEND=postgres needs DATABASE_URL');
+        const pool = createPostgresPool(databaseUrl);
+        return {
+            backend,
+            usage: createPostgresUsageStore(pool),
+            pricing: createPostgresPricingStore(pool),
+            close: () => pool.end(),
+        };
+    }
+    if (backend === 'supabase') {
+        if (!supabase) throw new Error('STORAGE_BACKEND=supabase needs SUPABASE_URL and SUPABASE_KEY');
+        return {
+            backend,
+            usage: createSupabaseUsageStore(supabase),
+            pricing: createSupabasePricingStore(supabase),
+            close: async () => {},
+        };
+    }
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected ${STORAGE_BACKENDS.join(' or ')})`);
+};
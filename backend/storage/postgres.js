@@ -0,0 +1,136 @@
+import pg from 'pg';
+import { usageFilterArgs } from './usage-filters.js';
+
+// Usage and pricing stores on a plain Postgres database (see ./index.js for the interface).
+// The schema comes from ../migrations. Values are parsed the way PostgREST returns them:
+// numerics and bigints as numbers, timestamps as ISO strings, so callers can't tell the
+// backends apart.
+
+const USAGE_TABLE = 'api_usage_logs';
+const PARSED_TYPES = {
+    20: Number, // int8
+    1700: parseFloat, // numeric
+    1082: (value) => value, // date, kept as YYYY-MM-DD
+    1114: (value) => new Date(`${value}Z`).toISOString(), // timestamp
+    1184: (value) => new Date(value).toISOString(), // timestamptz
+};
+
+export const createPostgresPool = (connectionString) => {
+    const pool = new pg.Pool({
+        connectionString,
+        max: Number(process.env.DATABASE_POOL_SIZE || 10),
+        types: {
+            getTypeParser: (oid, format) => (format !== 'binary' && PARSED_TYPES[oid]) || pg.types.getTypeParser(oid, format),
+        },
+    });
+    // An idle client losing its connection must not take the gateway down
+    pool.on('error', (err) => console.error('❌ POSTGRES POOL ERROR:', err.message));
+    return pool;
+};
+
+// Column names come from the gateway itself, but are checked before going into SQL anyway
+const identifier = (name) => {
+    if (!/^[a-z_][a-z0-9_]*$/.test(name)) throw new Error(`Invalid column name: ${name}`);
+    return `"${name}"`;
+};
+
+// Calls a set-returning function with named arguments: `SELECT * FROM fn(p_a => $1, ...)`
+const callFunction = async (pool, name, args) => {
+    const names = Object.keys(args);
+    const list = names.map((arg, index) => `${identifier(arg)} => $${index + 1}`).join(', ');
+    return (await pool.query(`SELECT * FROM ${name}(${list})`, names.map((arg) => args[arg]))).rows;
+};
+
+const columnList = (columns) => (columns.trim() === '*'
+    ? '*'
+    : columns.split(',').map((column) => identifier(column.trim())).join(', '));
+
+export const createPostgresUsageStore = (pool) => ({
+    async insertLogs(rows) {
+        if (!rows.length) return;
+        // Rows may set different columns; columns a row leaves out get their DEFAULT
+        const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+        const values = [];
+        const tuples = rows.map((row) => `(${columns.map((column) => {
+            if (row[column] === undefined) return 'DEFAULT';
+            values.push(row[column]);
+            return `$${values.length}`;
+        }).join(', ')})`);
+        await pool.query(
+            `INSERT INTO ${USAGE_TABLE} (${columns.map(identifier).join(', ')}) VALUES ${tuples.join(', ')}`,
+            values
+        );
+    },
+
+    async listLogs({ columns = '*', where = {}, since, until, orderBy, ascending = true, offset = 0, limit } = {}) {
+        const conditions = [];
+        const values = [];
+        const param = (value) => {
+            values.push(value);
+            return `$${values.length}`;
+        };
+        Object.entries(where).forEach(([column, value]) => {
+            conditions.push(value === null ? `${identifier(column)} IS NULL` : `${identifier(column)} = ${param(value)}`);
+        });
+        if (since) conditions.push(`created_at >= ${param(since)}`);
+        if (until) conditions.push(`created_at < ${param(until)}`);
+
+        let sql = `SELECT ${columnList(columns)} FROM ${USAGE_TABLE}`;
+        if (conditions.length) sql += ` WHERE ${conditions.join(' AND ')}`;
+        if (orderBy) sql += ` ORDER BY ${identifier(orderBy)} ${ascending ? 'ASC' : 'DESC'}`;
+        if (limit != null) sql += ` LIMIT ${param(limit)} OFFSET ${param(offset)}`;
+        const { rows } = await pool.query(sql, values);
+        return rows;
+    },
+
+    async updateLog(id, changes) {
+        const columns = Object.keys(changes);
+        if (!columns.length) return;
+        const assignments = columns.map((column, index) => `${identifier(column)} = $${index + 2}`);
+        await pool.query(
+            `UPDATE ${USAGE_TABLE} SET ${assignments.join(', ')} WHERE id = $1`,
+            [id, ...columns.map((column) => changes[column])]
+        );
+    },
+
+    async ruleVolume({ ruleId, since }) {
+        const { rows } = await pool.query('SELECT pricing_rule_volume($1, $2) AS volume', [ruleId, since]);
+        return Number(rows[0].volume || 0);
+    },
+
+    async budgetSpend({ column, value, since }) {
+        const { rows } = await pool.query('SELECT budget_spend($1, $2, $3) AS spend', [column, value, since]);
+        return Number(rows[0].spend || 0);
+    },
+
+    async alertWindowStats({ since, serviceName = null, userId = null, skipOutcomes = [] }) {
+        const rows = await callFunction(pool, 'alert_window_stats', {
+            p_since: since,
+            p_service_name: serviceName,
+            p_user_id: userId,
+            p_skip_outcomes: skipOutcomes,
+        });
+        return rows[0] || {};
+    },
+
+    modelUsageByDay: ({ skipOutcomes = [] } = {}) => callFunction(pool, 'model_usage_by_day', {
+        p_skip_outcomes: skipOutcomes,
+    }),
+
+    dailyUsage: (filters) => callFunction(pool, 'usage_daily', usageFilterArgs(filters)),
+
+    usageByService: ({ offset = 0, limit = 500, ...filters } = {}) => callFunction(pool, 'usage_by_service', {
+        p_offset: offset,
+        p_limit: limit,
+        ...usageFilterArgs(filters),
+    }),
+});
+
+export const createPostgresPricingStore = (pool) => {
+    const select = async (sql) => (await pool.query(sql)).rows;
+    return {
+        listModelPrices: () => select('SELECT model, tier, category, variant, input_per_million, output_per_million, cached_input_per_million, cache_write_per_million, reasoning_per_million, unit_price, effective_from, effective_to FROM model_pricing'),
+        listPricingRules: () => select('SELECT * FROM pricing_rules WHERE active'),
+        listModelAliases: () => select('SELECT alias, canonical_model, pricing_model FROM model_aliases'),
+    };
+};
@@ -0,0 +1,95 @@
+import { usageFilterArgs } from './usage-filters.js';
+
+// Usage and pricing stores backed by a Supabase project (see ./index.js for the interface)
+
+const USAGE_TABLE = 'api_usage_logs';
+
+export const createSupabaseUsageStore = (supabase) => ({
+    async insertLogs(rows) {
+        const { error } = await supabase.from(USAGE_TABLE).insert(rows);
+        if (error) throw error;
+    },
+
+    async listLogs({ columns = '*', where = {}, since, until, orderBy, ascending = true, offset = 0, limit } = {}) {
+        let query = supabase.from(USAGE_TABLE).select(columns);
+        Object.entries(where).forEach(([column, value]) => {
+            query = value === null ? query.is(column, null) : query.eq(column, value);
+        });
+        if (since) query = query.gte('created_at', since);
+        if (until) query = query.lt('created_at', until);
+        if (orderBy) query = query.order(orderBy, { ascending });
+        if (limit != null) query = query.range(offset, offset + limit - 1);
+        const { data, error } = await query;
+        if (error) throw error;
+        return data || [];
+    },
+
+    async updateLog(id, changes) {
+        const { error } = await supabase.from(USAGE_TABLE).update(changes).eq('id', id);
+        if (error) throw error;
+    },
+
+    async dailyUsage(filters) {
+        const { data, error } = await supabase.rpc('usage_daily', usageFilterArgs(filters));
+        if (error) throw error;
+        return data || [];
+    },
+
+    async ruleVolume({ ruleId, since }) {
+        const { data, error } = await supabase.rpc('pricing_rule_volume', { p_rule_id: ruleId, p_since: since });
+        if (error) throw error;
+        return Number(data || 0);
+    },
+
+    async budgetSpend({ column, value, since }) {
+        const { data, error } = await supabase.rpc('budget_spend', {
+            p_scope_column: column,
+            p_value: value,
+            p_since: since,
+        });
+        if (error) throw error;
+        return Number(data || 0);
+    },
+
+    async alertWindowStats({ since, serviceName = null, userId = null, skipOutcomes = [] }) {
+        const { data, error } = await supabase.rpc('alert_window_stats', {
+            p_since: since,
+            p_service_name: serviceName,
+            p_user_id: userId,
+            p_skip_outcomes: skipOutcomes,
+        });
+        if (error) throw error;
+        return data?.[0] || {};
+    },
+
+    async modelUsageByDay({ skipOutcomes = [] } = {}) {
+        const { data, error } = await supabase.rpc('model_usage_by_day', { p_skip_outcomes: skipOutcomes });
+        if (error) throw error;
+        return data || [];
+    },
+
+    async usageByService({ offset = 0, limit = 500, ...filters } = {}) {
+        const { data, error } = await supabase.rpc('usage_by_service', {
+            p_offset: offset,
+            p_limit: limit,
+            ...usageFilterArgs(filters),
+        });
+        if (error) throw error;
+        return data || [];
+    },
+});
+
+export const createSupabasePricingStore = (supabase) => {
+    const select = async (table, columns, activeOnly = false) => {
+        let query = supabase.from(table).select(columns);
+        if (activeOnly) query = query.eq('active', true);
+        const { data, error } = await query;
+        if (error) throw error;
+        return data || [];
+    };
+    return {
+        listModelPrices: () => select('model_pricing', 'model,tier,category,variant,input_per_million,output_per_million,cached_input_per_million,cache_write_per_million,reasoning_per_million,unit_price,effective_from,effective_to'),
+        listPricingRules: () => select('pricing_rules', '*', true),
+        listModelAliases: () => select('model_aliases', 'alias,canonical_model,pricing_model'),
+    };
+};
@@ -0,0 +1,13 @@
+// The filter arguments of usage_daily and usage_by_service (migrations/004_usage_filters.sql),
+// from the filters the gateway parses off /api/usage and /api/services. Missing filters are
+// passed as NULL, which the functions read as "don't filter".
+export const usageFilterArgs = ({ from, to, serviceName, userId, model, statusMin, statusMax, endpoint } = {}) => ({
+    p_from: from ?? null,
+    p_to: to ?? null,
+    p_service_name: serviceName ?? null,
+    p_user_id: userId ?? null,
+    p_model: model ?? null,
+    p_status_min: statusMin ?? null,
+    p_status_max: statusMax ?? null,
+    p_endpoint: endpoint ?? null,
+});
@@ -0,0 +1,135 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Keeps the gateway from being used as an open proxy: upstreams must be on an allowlist,
+// and no upstream may resolve to a private, loopback or link-local address (cloud metadata
+// endpoints such as 169.254.169.254 included).
+
+// Comma-separated lists, like ALLOWED_ORIGINS
+export const parseList = (value) => String(value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// NAMED_TARGETS="openai=https://api.openai.com,ocr=https://ocr.example.com". Only the first
+// `=` separates the name, so URLs may carry a query string.
+export const parseNamedTargets = (value) => new Map(parseList(value)
+    .map((entry) => {
+        const separator = entry.indexOf('=');
+        return separator === -1 ? [entry, ''] : [entry.slice(0, separator), entry.slice(separator + 1)];
+    })
+    .filter(([name, url]) => name.trim() && url.trim())
+    .map(([name, url]) => [name.trim().toLowerCase(), url.trim()]));
+
+// `*.example.com` matches subdomains only; anything else must match exactly
+export const hostMatches = (host, pattern) => {
+    const normalizedHost = String(host).toLowerCase();
+    const normalizedPattern = String(pattern).toLowerCase();
+    if (normalizedPattern.startsWith('*.')) return normalizedHost.endsWith(normalizedPattern.slice(1));
+    return normalizedHost === normalizedPattern;
+};
+
+const IPV4_BLOCKED_RANGES = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+const ipv4ToInt = (ip) => ip.split('.').reduce((value, octet) => ((value << 8) + Number(octet)) >>> 0, 0);
+
+const isBlockedIpv4 = (ip) => IPV4_BLOCKED_RANGES.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (ipv4ToInt(ip) & mask) === (ipv4ToInt(base) & mask);
+});
+
+const groupsToIpv4 = (high, low) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+
+// The eight 16-bit groups of an IPv6 address already validated by net.isIPv6, expanding `::`
+// and a trailing dotted IPv4 part (`::ffff:127.0.0.1`). A zone (`%eth0`) is dropped.
+const parseIpv6 = (ip) => {
+    let address = ip.split('%')[0];
+    const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) {
+        const ipv4 = ipv4ToInt(dotted[2]);
+        address = `${dotted[1]}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+    }
+    const parse = (part) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+    const [head, tail] = address.split('::');
+    if (tail === undefined) return parse(head);
+    const headGroups = parse(head);
+    const tailGroups = parse(tail);
+    return [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+};
+
+// IPv6 addresses that reach the IPv4 host they carry, in any notation (`::ffff:7f00:1` is
+// 127.0.0.1 too)
+const getEmbeddedIpv4 = (groups) => {
+    const zeros = (from, to) => groups.slice(from, to).every((group) => group === 0);
+    // ::ffff:0:0/96 mapped, ::/96 compatible (:: and ::1 included), ::ffff:0:0:0/96 translated
+    if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) return groupsToIpv4(groups[6], groups[7]);
+    if (zeros(0, 4) && groups[4] === 0xffff && groups[5] === 0) return groupsToIpv4(groups[6], groups[7]);
+    // 64:ff9b::/96 NAT64
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) return groupsToIpv4(groups[6], groups[7]);
+    // 2002::/16 6to4
+    if (groups[0] === 0x2002) return groupsToIpv4(groups[1], groups[2]);
+    // 2001::/32 Teredo, whose client address is stored inverted
+    if (groups[0] === 0x2001 && groups[1] === 0) return groupsToIpv4(~groups[6] & 0xffff, ~groups[7] & 0xffff);
+    return null;
+};
+
+export const isPrivateAddress = (address) => {
+    const ip = String(address).toLowerCase();
+    if (net.isIPv4(ip)) return isBlockedIpv4(ip);
+    if (!net.isIPv6(ip)) return true;
+
+    const groups = parseIpv6(ip);
+    const embedded = getEmbeddedIpv4(groups);
+    if (embedded) return isBlockedIpv4(embedded);
+    return (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1) // 64:ff9b:1::/48 local NAT64
+        || (groups[0] & 0xfe00) === 0xfc00    // fc00::/7 unique local
+        || (groups[0] & 0xffc0) === 0xfe80    // fe80::/10 link-local
+        || (groups[0] & 0xffc0) === 0xfec0    // fec0::/10 site-local
+        || (groups[0] & 0xff00) === 0xff00;   // multicast
+};
+
+// Resolves a host and fails if any address it points at is private
+export const assertPublicHost = async (host) => {
+    const bareHost = host.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(bareHost)
+        ? [{ address: bareHost }]
+        : await dns.promises.lookup(bareHost, { all: true });
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) throw new Error(`${host} resolves to private address ${blocked.address}`);
+};
+
+// DNS lookup used at connect time, so a host that passed the check cannot be re-pointed
+// at an internal address between the check and the connection (DNS rebinding).
+const createSafeLookup = (isTrustedHost) => (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        if (!isTrustedHost(hostname)) {
+            const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+            if (blocked) return callback(new Error(`Blocked connection to private address ${blocked.address} (${hostname})`));
+        }
+        if (options?.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+export const createSafeAgents = (isTrustedHost) => {
+    const lookup = createSafeLookup(isTrustedHost);
+    return {
+        http: new http.Agent({ keepAlive: true, lookup }),
+        https: new https.Agent({ keepAlive: true, lookup }),
+    };
+};
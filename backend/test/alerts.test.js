@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileAlertRule, evaluateAlertRule, nextNotification, buildAlertPayload } from '../alerts.js';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.parse('2026-03-10T12:00:00Z');
+
+const spendRule = compileAlertRule({
+    id: 7,
+    name: 'OCR spend',
+    metric: 'spend',
+    threshold: 50,
+    window_minutes: 60,
+    service_name: 'Halo-OCR',
+    webhook_url: 'https://hooks.example.com/alerts',
+    cooldown_minutes: 30,
+});
+
+test('fires above the threshold, not at it', () => {
+    assert.deepEqual(evaluateAlertRule(spendRule, { requests: 3, spend: '50.5' }), { value: 50.5, requests: 3, isFiring: true });
+    assert.equal(evaluateAlertRule(spendRule, { requests: 3, spend: 50 }).isFiring, false);
+});
+
+test('needs min_requests before the error rate or latency can fire', () => {
+    const rule = compileAlertRule({ metric: 'error_rate', threshold: 20, min_requests: 10 });
+    assert.equal(evaluateAlertRule(rule, { requests: 2, errors: 2 }).isFiring, false);
+    const busy = evaluateAlertRule(rule, { requests: 10, errors: 3 });
+    assert.equal(busy.value, 30);
+    assert.equal(busy.isFiring, true);
+    assert.equal(evaluateAlertRule(compileAlertRule({ metric: 'error_rate', threshold: 0 }), { requests: 0, errors: 0 }).value, 0);
+});
+
+test('notifies when a rule starts firing and when it resolves', () => {
+    assert.equal(nextNotification(spendRule, { firing: false, lastFiredAt: null }, true, T0), 'firing');
+    assert.equal(nextNotification(spendRule, { firing: true, lastFiredAt: T0 }, false, T0 + 5 * MINUTE), 'resolved');
+    assert.equal(nextNotification(spendRule, { firing: false, lastFiredAt: T0 }, false, T0 + 5 * MINUTE), null);
+});
+
+test('repeats a firing notification only once the cooldown has passed', () => {
+    const state = { firing: true, lastFiredAt: T0 };
+    assert.equal(nextNotification(spendRule, state, true, T0 + 29 * MINUTE), null);
+    assert.equal(nextNotification(spendRule, state, true, T0 + 30 * MINUTE), 'firing');
+    // A rule that resolved in between still waits out the cooldown
+    assert.equal(nextNotification(spendRule, { firing: false, lastFiredAt: T0 }, true, T0 + 10 * MINUTE), null);
+
+    const noCooldown = compileAlertRule({ metric: 'spend', threshold: 1, cooldown_minutes: 0 });
+    assert.equal(nextNotification(noCooldown, state, true, T0 + 1), 'firing');
+});
+
+test('builds a generic JSON payload', () => {
+    assert.deepEqual(buildAlertPayload(spendRule, 'firing', 62.5, new Date('2026-03-10T12:00:00Z')), {
+        alert: 'OCR spend',
+        rule_id: 7,
+        status: 'firing',
+        metric: 'spend',
+        value: 62.5,
+        threshold: 50,
+        window_minutes: 60,
+        service_name: 'Halo-OCR',
+        user_id: null,
+        summary: 'OCR spend: Spend $62.50 is above $50.00 over the last 60 min',
+        at: '2026-03-10T12:00:00.000Z',
+    });
+});
+
+test('builds Slack and Teams payloads', () => {
+    const latencyRule = compileAlertRule({ name: 'Slow chat', metric: 'latency', threshold: 2000, window_minutes: 15, user_id: 'u1', format: 'slack' });
+    const slack = buildAlertPayload(latencyRule, 'resolved', 1234.4);
+    assert.equal(slack.text, '✅ Resolved: Slow chat (p95 latency 1234ms, threshold 2000ms)');
+    assert.deepEqual(slack.blocks[1].fields.map((field) => field.text), [
+        '*Metric*\np95 latency',
+        '*Value*\n1234ms',
+        '*Threshold*\n2000ms',
+        '*Window*\n15 min',
+        '*Scope*\nu1',
+    ]);
+
+    const teams = buildAlertPayload({ ...latencyRule, format: 'teams' }, 'firing', 2500);
+    assert.equal(teams['@type'], 'MessageCard');
+    assert.equal(teams.themeColor, 'E01E5A');
+    assert.equal(teams.title, 'Slow chat: p95 latency 2500ms is above 2000ms over the last 15 min');
+    assert.deepEqual(teams.sections[0].facts.at(-1), { name: 'Scope', value: 'u1' });
+});
+
+test('falls back to the generic format and defaults', () => {
+    const rule = compileAlertRule({ metric: 'tokens', threshold: '1000000', format: 'pagerduty' });
+    assert.equal(rule.format, 'generic');
+    assert.equal(rule.name, 'tokens > 1000000');
+    assert.equal(rule.windowMinutes, 60);
+    assert.equal(rule.cooldownMinutes, 60);
+    assert.equal(buildAlertPayload(rule, 'firing', 1500000).summary, 'tokens > 1000000: Tokens 1,500,000 is above 1,000,000 over the last 60 min');
+});
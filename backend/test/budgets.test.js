@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileBudget, getApplicableBudgets, getPeriodEnd, getPeriodStart } from '../budgets.js';
+
+const at = (iso) => new Date(iso);
+const iso = (date) => date.toISOString();
+
+test('daily periods run from UTC midnight to the next', () => {
+    assert.equal(iso(getPeriodStart('daily', at('2026-03-10T23:59:59.999Z'))), '2026-03-10T00:00:00.000Z');
+    assert.equal(iso(getPeriodEnd('daily', at('2026-03-10T23:59:59.999Z'))), '2026-03-11T00:00:00.000Z');
+    assert.equal(iso(getPeriodStart('daily', at('2026-03-11T00:00:00.000Z'))), '2026-03-11T00:00:00.000Z');
+});
+
+test('weekly periods start on Monday', () => {
+    // 2026-03-15 is a Sunday, 2026-03-16 a Monday
+    assert.equal(iso(getPeriodStart('weekly', at('2026-03-15T18:00:00Z'))), '2026-03-09T00:00:00.000Z');
+    assert.equal(iso(getPeriodEnd('weekly', at('2026-03-15T18:00:00Z'))), '2026-03-16T00:00:00.000Z');
+    assert.equal(iso(getPeriodStart('weekly', at('2026-03-16T00:00:00Z'))), '2026-03-16T00:00:00.000Z');
+    // Across a month and a year
+    assert.equal(iso(getPeriodStart('weekly', at('2026-01-02T12:00:00Z'))), '2025-12-29T00:00:00.000Z');
+});
+
+test('monthly periods follow the calendar', () => {
+    assert.equal(iso(getPeriodStart('monthly', at('2026-02-28T23:00:00Z'))), '2026-02-01T00:00:00.000Z');
+    assert.equal(iso(getPeriodEnd('monthly', at('2026-02-28T23:00:00Z'))), '2026-03-01T00:00:00.000Z');
+    assert.equal(iso(getPeriodEnd('monthly', at('2026-01-31T10:00:00Z'))), '2026-02-01T00:00:00.000Z');
+    assert.equal(iso(getPeriodEnd('monthly', at('2025-12-15T10:00:00Z'))), '2026-01-01T00:00:00.000Z');
+});
+
+test('uses UTC whatever the server time zone', () => {
+    // Late evening in New York is already the next day in UTC
+    assert.equal(iso(getPeriodStart('daily', at('2026-03-10T22:30:00-05:00'))), '2026-03-11T00:00:00.000Z');
+});
+
+test('gives each period its own spend bucket', () => {
+    const budgets = [
+        compileBudget({ id: 1, scope: 'service', match: 'Halo-OCR', period: 'monthly', amount: 250 }),
+        compileBudget({ id: 2, scope: 'user', match: null, period: 'daily', amount: '5', mode: 'soft' }),
+        compileBudget({ id: 3, scope: 'model', match: 'gpt-4o', period: 'weekly', amount: 10 }),
+        compileBudget({ id: 4, scope: 'team', match: null, period: 'daily', amount: 10 }),
+    ];
+    const context = { userId: 'u1', serviceName: 'Halo-OCR', model: 'claude-sonnet-4-5' };
+
+    const march = getApplicableBudgets(budgets, context, at('2026-03-31T23:59:00Z'));
+    assert.deepEqual(march.map(({ budget, value, bucket }) => [budget.id, value, bucket]), [
+        [1, 'Halo-OCR', '1:Halo-OCR:2026-03-01T00:00:00.000Z'],
+        [2, 'u1', '2:u1:2026-03-31T00:00:00.000Z'],
+    ]);
+    assert.equal(iso(march[0].periodEnd), '2026-04-01T00:00:00.000Z');
+    assert.equal(march[1].budget.mode, 'soft');
+    assert.equal(march[1].budget.amount, 5);
+
+    const april = getApplicableBudgets(budgets, context, at('2026-04-01T00:00:00Z'));
+    assert.equal(april[0].bucket, '1:Halo-OCR:2026-04-01T00:00:00.000Z');
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCircuitBreaker, isCircuitFailure } from '../circuit-breaker.js';
+
+const HOST = 'api.openai.com';
+
+const createBreaker = (options = {}) => createCircuitBreaker({
+    windowMs: 60000,
+    minRequests: 4,
+    failureRate: 50,
+    slowCallMs: 1000,
+    slowCallRate: 75,
+    openMs: 10000,
+    ...options,
+});
+
+// Records `outcomes` one millisecond apart from `start`, returning the last result
+const recordAll = (breaker, outcomes, start = 0) => outcomes
+    .map((outcome, i) => breaker.record(HOST, outcome, start + i))
+    .pop();
+
+test('counts 5xx and network errors as failures, but not 429 or 501', () => {
+    assert.equal(isCircuitFailure({ status: 503 }), true);
+    assert.equal(isCircuitFailure({ error: { code: 'ECONNRESET' } }), true);
+    assert.equal(isCircuitFailure({ status: 429 }), false);
+    assert.equal(isCircuitFailure({ status: 501 }), false);
+    assert.equal(isCircuitFailure({ status: 200 }), false);
+});
+
+test('stays closed until minRequests have been seen', () => {
+    const breaker = createBreaker();
+    const result = recordAll(breaker, [{ status: 500 }, { status: 500 }, { status: 500 }]);
+    assert.deepEqual(result, { state: 'closed', changed: false });
+    assert.equal(breaker.check(HOST, 10).allowed, true);
+});
+
+test('opens at the failure rate and refuses requests for openMs', () => {
+    const breaker = createBreaker();
+    const result = recordAll(breaker, [{ status: 200 }, { status: 500 }, { status: 200 }, { error: { code: 'ETIMEDOUT' } }], 1000);
+    assert.deepEqual(result, { state: 'open', changed: true });
+
+    assert.deepEqual(breaker.check(HOST, 1003 + 4000), { allowed: false, state: 'open', retryAfterMs: 6000 });
+    const [health] = breaker.snapshot(1003 + 4000);
+    assert.equal(health.state, 'open');
+    assert.equal(health.last_failure.reason, 'ETIMEDOUT');
+    assert.equal(health.retry_at, new Date(11003).toISOString());
+});
+
+test('opens when too many calls are slow', () => {
+    const breaker = createBreaker();
+    const slow = { status: 200, latencyMs: 1500 };
+    assert.equal(recordAll(breaker, [slow, slow, slow, { status: 200, latencyMs: 20 }]).state, 'open');
+});
+
+test('forgets outcomes older than the window', () => {
+    const breaker = createBreaker();
+    recordAll(breaker, [{ status: 500 }, { status: 500 }, { status: 500 }]);
+    // The three failures have left the window by the time the fourth call comes in
+    assert.equal(breaker.record(HOST, { status: 500 }, 70000).state, 'closed');
+    assert.equal(breaker.snapshot(70000)[0].requests, 1);
+});
+
+test('lets one probe through once openMs has passed, and closes when it succeeds', () => {
+    const breaker = createBreaker();
+    recordAll(breaker, Array(4).fill({ status: 502 }));
+
+    assert.deepEqual(breaker.check(HOST, 10003), { allowed: true, state: 'half_open', retryAfterMs: 0 });
+    // Only one probe at a time
+    assert.deepEqual(breaker.check(HOST, 10500), { allowed: false, state: 'half_open', retryAfterMs: 9503 });
+
+    assert.deepEqual(breaker.record(HOST, { status: 200 }, 10600), { state: 'closed', changed: true });
+    assert.equal(breaker.check(HOST, 10700).allowed, true);
+    assert.equal(breaker.snapshot(10700)[0].requests, 0);
+});
+
+test('opens again when the probe fails or is slow', () => {
+    const breaker = createBreaker();
+    recordAll(breaker, Array(4).fill({ status: 502 }));
+    breaker.check(HOST, 10003);
+    assert.deepEqual(breaker.record(HOST, { status: 503 }, 10100), { state: 'open', changed: true });
+    assert.equal(breaker.check(HOST, 15000).allowed, false);
+
+    breaker.check(HOST, 20100);
+    assert.equal(breaker.record(HOST, { status: 200, latencyMs: 5000 }, 20200).state, 'open');
+});
+
+test('frees the slot of a probe that never reported back', () => {
+    const breaker = createBreaker();
+    recordAll(breaker, Array(4).fill({ status: 502 }));
+    assert.equal(breaker.check(HOST, 10003).allowed, true);
+    assert.equal(breaker.check(HOST, 19000).allowed, false);
+    assert.equal(breaker.check(HOST, 20003).allowed, true);
+});
+
+test('keeps each host on its own circuit', () => {
+    const breaker = createBreaker();
+    recordAll(breaker, Array(4).fill({ status: 500 }));
+    assert.equal(breaker.check(HOST, 100).allowed, false);
+    assert.equal(breaker.check('api.anthropic.com', 100).allowed, true);
+});
@@ -0,0 +1,141 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createLogQueue } from '../log-queue.js';
+
+const tempDirs = [];
+const tempSpool = async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-queue-'));
+    tempDirs.push(dir);
+    return path.join(dir, 'usage.jsonl');
+};
+after(() => Promise.all(tempDirs.map((dir) => fs.rm(dir, { recursive: true, force: true }))));
+
+const readLines = async (file) => (await fs.readFile(file, 'utf8')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+
+// Inserts into `rows`, or fails with `failWith` while it is set
+const createStore = () => {
+    const store = { rows: [], batches: 0, failWith: null };
+    store.insert = async (batch) => {
+        if (store.failWith) throw store.failWith;
+        store.batches += 1;
+        store.rows.push(...batch);
+    };
+    return store;
+};
+
+// A backoff long enough that a failed flush is never retried during a test
+const options = { label: 'test', baseDelayMs: 60000, maxDelayMs: 60000 };
+
+test('spools queued rows and inserts them in batches', async () => {
+    const spoolPath = await tempSpool();
+    const store = createStore();
+    const queue = createLogQueue({ ...options, insert: store.insert, spoolPath, batchSize: 2 });
+    await queue.ready;
+
+    queue.enqueue({ n: 1 });
+    await queue.drain(0);
+    assert.deepEqual((await readLines(spoolPath)).map((line) => line.row), [{ n: 1 }]);
+    assert.equal(queue.stats().depth, 1);
+
+    queue.enqueue({ n: 2 });
+    queue.enqueue({ n: 3 });
+    await queue.flush();
+    assert.deepEqual(store.rows, [{ n: 1 }, { n: 2 }, { n: 3 }]);
+    assert.equal(store.batches, 2);
+
+    // An empty queue leaves an empty spool
+    await queue.drain(0);
+    assert.equal(await fs.readFile(spoolPath, 'utf8'), '');
+    assert.equal(queue.stats().depth, 0);
+});
+
+test('keeps rows queued while the database is down', async () => {
+    const spoolPath = await tempSpool();
+    const store = createStore();
+    store.failWith = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const queue = createLogQueue({ ...options, insert: store.insert, spoolPath });
+
+    queue.enqueue({ n: 1 });
+    await queue.flush();
+    const stats = queue.stats();
+    assert.equal(stats.depth, 1);
+    assert.equal(stats.consecutive_failures, 1);
+    assert.equal(stats.failing, true);
+
+    // Backing off: a flush before next_retry_at does nothing
+    store.failWith = null;
+    await queue.flush();
+    assert.equal(store.rows.length, 0);
+
+    // drain ignores the backoff
+    assert.equal(await queue.drain(1000), 0);
+    assert.deepEqual(store.rows, [{ n: 1 }]);
+    assert.equal(queue.stats().consecutive_failures, 0);
+    assert.equal(queue.stats().failing, false);
+});
+
+test('replays rows that were never acknowledged after a crash', async () => {
+    const spoolPath = await tempSpool();
+    await fs.writeFile(spoolPath, [
+        JSON.stringify({ id: 'a', at: 1, row: { n: 1 } }),
+        JSON.stringify({ id: 'b', at: 2, row: { n: 2 } }),
+        JSON.stringify({ ack: ['a'] }),
+        JSON.stringify({ id: 'c', at: 3, row: { n: 3 } }),
+        // Cut short mid-write
+        '{"id":"d","at":4,"ro',
+    ].join('\n'));
+
+    const store = createStore();
+    const queue = createLogQueue({ ...options, insert: store.insert, spoolPath });
+    await queue.ready;
+    assert.equal(queue.stats(10).depth, 2);
+    assert.equal(queue.stats(10).oldest_pending_age_ms, 8);
+    // Compacted to the rows still pending
+    assert.deepEqual((await readLines(spoolPath)).map((line) => line.id), ['b', 'c']);
+
+    queue.enqueue({ n: 5 });
+    await queue.flush();
+    assert.deepEqual(store.rows, [{ n: 2 }, { n: 3 }, { n: 5 }]);
+});
+
+test('picks up where a previous process left off', async () => {
+    const spoolPath = await tempSpool();
+    const down = createStore();
+    down.failWith = new Error('timeout');
+    const first = createLogQueue({ ...options, insert: down.insert, spoolPath });
+    first.enqueue({ n: 1 });
+    first.enqueue({ n: 2 });
+    await first.flush();
+    await first.drain(0);
+
+    const store = createStore();
+    const second = createLogQueue({ ...options, insert: store.insert, spoolPath });
+    await second.flush();
+    assert.deepEqual(store.rows, [{ n: 1 }, { n: 2 }]);
+    assert.equal(await fs.readFile(spoolPath, 'utf8'), '');
+});
+
+test('moves rows the database refuses aside and inserts the rest', async () => {
+    const spoolPath = await tempSpool();
+    const rows = [];
+    const insert = async (batch) => {
+        if (batch.some((row) => row.bad)) throw Object.assign(new Error('null value in column "endpoint"'), { code: '23502' });
+        rows.push(...batch);
+    };
+    const queue = createLogQueue({ ...options, insert, spoolPath });
+    queue.enqueue({ n: 1 });
+    queue.enqueue({ n: 2, bad: true });
+    queue.enqueue({ n: 3 });
+    await queue.flush();
+    await queue.drain(0);
+
+    assert.deepEqual(rows, [{ n: 1 }, { n: 3 }]);
+    assert.equal(queue.stats().rejected, 1);
+    assert.equal(queue.stats().consecutive_failures, 0);
+    const [rejected] = await readLines(`${spoolPath}.rejected`);
+    assert.deepEqual(rejected.row, { n: 2, bad: true });
+    assert.equal(rejected.error, 'null value in column "endpoint"');
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileModelAliases, canonicalizeModel, getPricingCandidates } from '../model-aliases.js';
+
+const aliases = compileModelAliases([
+    { alias: 'My-GPT4o-Prod', canonical_model: 'gpt-4o' },
+    { alias: 'claude-*-eu', canonical_model: 'claude-sonnet-4-5', pricing_model: 'claude-sonnet-4-5-20250929' },
+]);
+
+test('matches aliases whatever their case', () => {
+    assert.deepEqual(canonicalizeModel('my-gpt4o-prod', aliases), { model: 'gpt-4o', pricingModels: ['gpt-4o'] });
+    assert.deepEqual(canonicalizeModel('Claude-Sonnet-EU', aliases), { model: 'claude-sonnet-4-5', pricingModels: ['claude-sonnet-4-5-20250929'] });
+});
+
+test('keeps the provider\'s case when no alias matches', () => {
+    const { model, pricingModels } = canonicalizeModel('models/Gemini-2.5-Pro', aliases);
+    assert.equal(model, 'Gemini-2.5-Pro');
+    assert.deepEqual(getPricingCandidates(pricingModels), ['gemini-2.5-pro']);
+    assert.equal(canonicalizeModel('meta-llama/Llama-3.3-70B-Instruct', aliases).model, 'meta-llama/Llama-3.3-70B-Instruct');
+});
+
+test('unwraps Bedrock IDs and ARNs', () => {
+    assert.equal(canonicalizeModel('us.anthropic.claude-3-5-sonnet-20241022-v2:0', aliases).model, 'claude-3-5-sonnet-20241022');
+    assert.equal(
+        canonicalizeModel('arn:aws:bedrock:us-east-1:123456789012:inference-profile/us.anthropic.claude-3-5-haiku-20241022-v1:0', aliases).model,
+        'claude-3-5-haiku-20241022',
+    );
+});
+
+test('prices fine-tunes as their base model', () => {
+    const { model, pricingModels } = canonicalizeModel('ft:gpt-4o-mini-2024-07-18:org::abc', aliases);
+    assert.equal(model, 'ft:gpt-4o-mini-2024-07-18:org::abc');
+    assert.deepEqual(getPricingCandidates(pricingModels), [
+        'ft:gpt-4o-mini-2024-07-18',
+        'ft:gpt-4o-mini',
+        'gpt-4o-mini-2024-07-18',
+        'gpt-4o-mini',
+    ]);
+});
@@ -0,0 +1,273 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import {
+    resolveProvider,
+    getProviderAuth,
+    createStreamSummary,
+    summarizeChunks,
+    parseSseFrame,
+    SSE_FRAME_SEPARATOR,
+} from '../providers/index.js';
+
+// Recorded provider responses in fixtures/, read the way the gateway reads them: SSE streams
+// frame by frame into a stream summary, JSON arrays of chunks (Vertex without `alt=sse`)
+// through summarizeChunks, anything else as the parsed body.
+const loadFixture = (provider, name) => {
+    const text = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+    if (name.endsWith('.sse')) {
+        const summary = createStreamSummary();
+        text.split(SSE_FRAME_SEPARATOR)
+            .map(parseSseFrame)
+            .filter(Boolean)
+            .forEach((event) => provider.applyStreamEvent(summary, event));
+        return summary;
+    }
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? summarizeChunks(provider, parsed) : parsed;
+};
+
+const tokens = (inputTokens, outputTokens, reasoningTokens, cacheWriteTokens, cacheReadTokens) => ({
+    inputTokens,
+    outputTokens,
+    reasoningTokens,
+    cacheWriteTokens,
+    cacheReadTokens,
+});
+
+const OPENAI = 'https://api.openai.com';
+const ANTHROPIC = 'https://api.anthropic.com';
+const GEMINI = 'https://generativelanguage.googleapis.com';
+
+const cases = [
+    {
+        fixture: 'openai/chat-completion.json',
+        target: OPENAI,
+        path: '/v1/chat/completions',
+        provider: 'openai',
+        model: 'gpt-4o-2024-08-06',
+        // Cached prompt tokens are split out of prompt_tokens
+        usage: tokens(86, 300, 0, 0, 1920),
+        billable: true,
+    },
+    {
+        fixture: 'openai/chat-completion-reasoning.json',
+        target: OPENAI,
+        path: '/v1/chat/completions',
+        provider: 'openai',
+        model: 'o3-mini-2025-01-31',
+        // Reasoning tokens are split out of completion_tokens
+        usage: tokens(120, 250, 1600, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'openai/responses-web-search.json',
+        target: OPENAI,
+        path: '/v1/responses',
+        provider: 'openai',
+        model: 'gpt-4.1-2025-04-14',
+        usage: tokens(328, 356, 0, 0, 0),
+        billable: true,
+        toolCalls: { web_search: 1 },
+    },
+    {
+        fixture: 'openai/transcription.json',
+        target: OPENAI,
+        path: '/v1/audio/transcriptions',
+        provider: 'openai',
+        model: null,
+        // Billed by duration, not tokens
+        usage: null,
+        billable: true,
+        category: 'transcription',
+        units: { units: 94 / 60, variant: null },
+    },
+    {
+        fixture: 'openai/models.json',
+        target: OPENAI,
+        method: 'GET',
+        path: '/v1/models',
+        provider: 'openai',
+        model: null,
+        usage: null,
+        billable: false,
+    },
+    {
+        fixture: 'openai/azure-image-generation.json',
+        target: 'https://contoso-eastus.openai.azure.com',
+        path: '/openai/deployments/dall-e-3/images/generations?api-version=2024-02-01',
+        provider: 'openai',
+        // Azure responses don't name the model; the deployment in the path does
+        model: 'dall-e-3',
+        usage: null,
+        billable: true,
+        category: 'image',
+        requestBody: { prompt: 'A watercolour lighthouse', size: '1024x1792', quality: 'hd' },
+        units: { units: 1, variant: '1024x1792:hd' },
+    },
+    {
+        fixture: 'openai/chat-completion-stream.sse',
+        target: OPENAI,
+        path: '/v1/chat/completions',
+        provider: 'openai',
+        model: 'gpt-4o-mini-2024-07-18',
+        usage: tokens(19, 10, 0, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'openai/responses-stream.sse',
+        target: OPENAI,
+        path: '/v1/responses',
+        provider: 'openai',
+        model: 'gpt-4.1-mini-2025-04-14',
+        usage: tokens(60, 9, 0, 0, 1152),
+        billable: true,
+        toolCalls: {},
+    },
+    {
+        fixture: 'anthropic/message.json',
+        target: ANTHROPIC,
+        path: '/v1/messages',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        usage: tokens(12, 154, 0, 2048, 0),
+        billable: true,
+    },
+    {
+        fixture: 'anthropic/message-web-search.json',
+        target: ANTHROPIC,
+        path: '/v1/messages',
+        provider: 'anthropic',
+        model: 'claude-opus-4-1-20250805',
+        usage: tokens(6039, 931, 0, 0, 0),
+        billable: true,
+        toolCalls: { web_search: 2 },
+    },
+    {
+        fixture: 'anthropic/count-tokens.json',
+        target: ANTHROPIC,
+        path: '/v1/messages/count_tokens',
+        provider: 'anthropic',
+        model: null,
+        usage: null,
+        billable: false,
+    },
+    {
+        fixture: 'anthropic/message-stream.sse',
+        target: ANTHROPIC,
+        path: '/v1/messages',
+        provider: 'anthropic',
+        model: 'claude-3-5-haiku-20241022',
+        // Input from message_start, the final output count from message_delta
+        usage: tokens(25, 15, 0, 0, 1800),
+        billable: true,
+    },
+    {
+        fixture: 'gemini/generate-content.json',
+        target: GEMINI,
+        path: '/v1beta/models/gemini-2.5-pro:generateContent',
+        provider: 'gemini',
+        model: 'gemini-2.5-pro',
+        usage: tokens(28, 210, 628, 0, 1024),
+        billable: true,
+    },
+    {
+        fixture: 'gemini/stream-generate-content.sse',
+        target: GEMINI,
+        path: '/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        // Running totals: the last chunk wins
+        usage: tokens(8, 12, 36, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'gemini/vertex-stream-generate-content.json',
+        target: 'https://us-central1-aiplatform.googleapis.com',
+        path: '/v1/projects/acme-prod/locations/us-central1/publishers/google/models/gemini-2.0-flash-001:streamGenerateContent',
+        provider: 'gemini',
+        model: 'gemini-2.0-flash-001',
+        usage: tokens(9, 7, 0, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'gemini/count-tokens.json',
+        target: GEMINI,
+        path: '/v1beta/models/gemini-2.5-pro:countTokens',
+        provider: 'gemini',
+        model: 'gemini-2.5-pro',
+        usage: null,
+        billable: false,
+    },
+    {
+        fixture: 'generic/bedrock-invoke-anthropic.json',
+        target: 'https://bedrock-runtime.us-east-1.amazonaws.com',
+        path: '/model/anthropic.claude-3-5-haiku-20241022-v1:0/invoke',
+        provider: 'generic',
+        model: 'claude-3-5-haiku-20241022',
+        // Recognised as Anthropic-shaped usage
+        usage: tokens(18, 11, 0, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'generic/openai-compatible-stream.sse',
+        target: 'https://llm.internal.example',
+        path: '/generate/chat',
+        provider: 'generic',
+        model: 'meta-llama/Llama-3.3-70B-Instruct',
+        usage: tokens(37, 2, 0, 0, 0),
+        billable: true,
+    },
+    {
+        fixture: 'generic/openai-responses.json',
+        target: 'https://llm.internal.example',
+        path: '/api/v2/respond',
+        provider: 'generic',
+        model: 'o4-mini-2025-04-16',
+        // Responses-API usage also has input_tokens, but is OpenAI-shaped
+        usage: tokens(176, 180, 320, 0, 1024),
+        billable: true,
+    },
+];
+
+cases.forEach((fixtureCase) => {
+    const { fixture, target, method = 'POST', path } = fixtureCase;
+
+    test(fixture, () => {
+        const provider = resolveProvider({ target, path });
+        assert.equal(provider.name, fixtureCase.provider);
+
+        const responseData = loadFixture(provider, fixture);
+        assert.equal(provider.extractModel(responseData, path), fixtureCase.model);
+        assert.deepEqual(provider.extractUsage(responseData), fixtureCase.usage);
+        assert.equal(provider.isBillable({ method, path }), fixtureCase.billable);
+
+        const category = provider.detectCategory({ method, path });
+        assert.equal(category, fixtureCase.category || 'text');
+        if (fixtureCase.units) {
+            const units = provider.extractUnits({ category, responseData, requestBody: fixtureCase.requestBody });
+            assert.deepEqual(units, fixtureCase.units);
+        }
+        if (fixtureCase.toolCalls) {
+            assert.deepEqual(provider.extractToolCalls(responseData), fixtureCase.toolCalls);
+        }
+    });
+});
+
+test('parseSseFrame skips comments, keep-alives and [DONE]', () => {
+    assert.equal(parseSseFrame(': keep-alive'), null);
+    assert.equal(parseSseFrame('data: [DONE]'), null);
+    assert.equal(parseSseFrame('event: ping'), null);
+    assert.equal(parseSseFrame('data: {"type":"message_sto'), null);
+    assert.deepEqual(parseSseFrame('event: message_stop\r\ndata: {"type":"message_stop"}'), { type: 'message_stop' });
+});
+
+test('getProviderAuth follows the target host', () => {
+    const authFor = (target) => getProviderAuth(resolveProvider({ target }), target);
+    assert.equal(authFor('https://api.openai.com').header, 'authorization');
+    assert.deepEqual(authFor('https://contoso-eastus.openai.azure.com'), { header: 'api-key', scheme: null });
+    assert.equal(authFor('https://api.anthropic.com').header, 'x-api-key');
+    assert.equal(authFor('https://generativelanguage.googleapis.com').header, 'x-goog-api-key');
+    // Vertex AI takes OAuth tokens the vault can't store
+    assert.equal(authFor('https://us-central1-aiplatform.googleapis.com'), null);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    compileRateLimit,
+    getApplicableLimits,
+    createMemoryRateLimitStore,
+    checkRateLimits,
+    chargeRateLimitTokens,
+} from '../rate-limiter.js';
+
+const context = { userId: 'u1', serviceName: 'Halo-OCR', gatewayKeyId: 'k1', host: 'api.openai.com' };
+
+// A minute boundary, so windows line up with the timestamps below
+const T0 = 60000 * 1000;
+
+test('applies limits by scope and match', () => {
+    const limits = [
+        compileRateLimit({ id: 1, scope: 'service', match: 'Halo-OCR', requests_per_minute: 60 }),
+        compileRateLimit({ id: 2, scope: 'service', match: 'Halo-Chat', requests_per_minute: 60 }),
+        compileRateLimit({ id: 3, scope: 'user', match: null, tokens_per_minute: 1000 }),
+        compileRateLimit({ id: 4, scope: 'target', match: '*.openai.com', requests_per_minute: 600 }),
+        compileRateLimit({ id: 5, scope: 'key', match: null, requests_per_minute: 10 }),
+        compileRateLimit({ id: 6, scope: 'region', match: null, requests_per_minute: 10 }),
+    ];
+    assert.deepEqual(getApplicableLimits(limits, context).map(({ bucket }) => bucket), ['1:Halo-OCR', '3:u1', '4:api.openai.com', '5:k1']);
+    // A caller without a gateway key is not counted against per-key limits
+    assert.equal(getApplicableLimits(limits, { ...context, gatewayKeyId: null }).some(({ limit }) => limit.id === 5), false);
+});
+
+test('refuses requests over the limit until the window rolls over', async () => {
+    const store = createMemoryRateLimitStore();
+    const applicable = getApplicableLimits([compileRateLimit({ id: 1, scope: 'user', requests_per_minute: 2 })], context);
+
+    assert.equal(await checkRateLimits(store, applicable, T0), null);
+    assert.equal(await checkRateLimits(store, applicable, T0 + 1000), null);
+    const refused = await checkRateLimits(store, applicable, T0 + 45500);
+    assert.equal(refused.kind, 'requests');
+    assert.equal(refused.limit.id, 1);
+    assert.equal(refused.resetAt, T0 + 60000);
+    assert.equal(refused.retryAfter, 15);
+
+    // A new window starts with a full allowance
+    assert.equal(await checkRateLimits(store, applicable, T0 + 60000), null);
+});
+
+test('refuses requests once the window\'s tokens are used up', async () => {
+    const store = createMemoryRateLimitStore();
+    const applicable = getApplicableLimits([compileRateLimit({ id: 1, scope: 'service', tokens_per_minute: 1000 })], context);
+
+    assert.equal(await checkRateLimits(store, applicable, T0), null);
+    await chargeRateLimitTokens(store, applicable, 600, T0 + 100);
+    assert.equal(await checkRateLimits(store, applicable, T0 + 200), null);
+    // Tokens are charged after the response, so the last request may overshoot
+    await chargeRateLimitTokens(store, applicable, 600, T0 + 300);
+    assert.equal((await checkRateLimits(store, applicable, T0 + 400)).kind, 'tokens');
+
+    assert.equal(await checkRateLimits(store, applicable, T0 + 60000), null);
+});
+
+test('counts each bucket separately', async () => {
+    const store = createMemoryRateLimitStore();
+    const limits = [compileRateLimit({ id: 1, scope: 'user', requests_per_minute: 1 })];
+    assert.equal(await checkRateLimits(store, getApplicableLimits(limits, context), T0), null);
+    assert.equal(await checkRateLimits(store, getApplicableLimits(limits, { ...context, userId: 'u2' }), T0), null);
+    assert.notEqual(await checkRateLimits(store, getApplicableLimits(limits, context), T0), null);
+});
+
+test('reports the first limit hit, but still counts the request against every limit', async () => {
+    const store = createMemoryRateLimitStore();
+    const applicable = getApplicableLimits([
+        compileRateLimit({ id: 1, scope: 'user', requests_per_minute: 1 }),
+        compileRateLimit({ id: 2, scope: 'service', requests_per_minute: 5 }),
+    ], context);
+    await checkRateLimits(store, applicable, T0);
+    assert.equal((await checkRateLimits(store, applicable, T0)).limit.id, 1);
+    assert.equal((await store.get('requests:2:Halo-OCR', T0)).count, 2);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileRetryPolicy, getBackoffDelay, isRetryableFailure, isSafeToRetry } from '../retry-policies.js';
+import { parseRetryAfter } from '../credential-vault.js';
+
+const policy = compileRetryPolicy({ target_host: 'api.openai.com', base_delay_ms: 100, max_delay_ms: 1000 });
+
+test('backs off exponentially up to max_delay_ms', () => {
+    const ceiling = (retryNumber) => getBackoffDelay(policy, retryNumber, null, () => 1);
+    assert.deepEqual([1, 2, 3, 4, 5].map(ceiling), [100, 200, 400, 800, 1000]);
+});
+
+test('jitters the delay between zero and the step', () => {
+    assert.equal(getBackoffDelay(policy, 3, null, () => 0), 0);
+    assert.equal(getBackoffDelay(policy, 3, null, () => 0.5), 200);
+});
+
+test('waits for Retry-After when it is longer, up to max_delay_ms', () => {
+    assert.equal(getBackoffDelay(policy, 1, 600, () => 0.5), 600);
+    assert.equal(getBackoffDelay(policy, 3, 100, () => 0.5), 200);
+    assert.equal(getBackoffDelay(policy, 1, 30000, () => 0.5), 1000);
+    assert.equal(getBackoffDelay(policy, 1, 0, () => 0.5), 50);
+});
+
+test('retries the configured statuses and network errors', () => {
+    assert.equal(isRetryableFailure(policy, { status: 503 }), true);
+    assert.equal(isRetryableFailure(policy, { status: 400 }), false);
+    assert.equal(isRetryableFailure(policy, { error: { code: 'ECONNRESET' } }), true);
+    assert.equal(isRetryableFailure(policy, { error: { code: 'ERR_TLS_CERT_ALTNAME_INVALID' } }), false);
+    assert.equal(isRetryableFailure(policy, { circuitOpen: true }), true);
+
+    const onlyOverloaded = compileRetryPolicy({ retry_on: '[529]' });
+    assert.equal(isRetryableFailure(onlyOverloaded, { status: 529 }), true);
+    assert.equal(isRetryableFailure(onlyOverloaded, { status: 503 }), false);
+});
+
+test('retries idempotent methods only, unless the request says otherwise', () => {
+    const request = (method, headers = {}) => ({ method, headers });
+    ['GET', 'head', 'OPTIONS', 'PUT', 'DELETE']
+        .forEach((method) => assert.equal(isSafeToRetry(policy, request(method), { status: 503 }), true, method));
+    assert.equal(isSafeToRetry(policy, request('POST'), { status: 503 }), false);
+    assert.equal(isSafeToRetry(policy, request('PATCH'), { error: { code: 'ECONNRESET' } }), false);
+
+    assert.equal(isSafeToRetry(policy, request('POST', { 'idempotency-key': 'abc' }), { status: 503 }), true);
+    assert.equal(isSafeToRetry(compileRetryPolicy({ retry_non_idempotent: true }), request('POST'), { status: 503 }), true);
+    // The upstream never saw these requests
+    assert.equal(isSafeToRetry(policy, request('POST'), { error: { code: 'ECONNREFUSED' } }), true);
+    assert.equal(isSafeToRetry(policy, request('POST'), { circuitOpen: true }), true);
+});
+
+test('parses Retry-After in seconds or as an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('2', now), 2000);
+    assert.equal(parseRetryAfter('0.5', now), 500);
+    assert.equal(parseRetryAfter('-3', now), 0);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now), 30000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), null);
+    assert.equal(parseRetryAfter(undefined, now), null);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPrivateAddress, parseNamedTargets } from '../target-guard.js';
+
+test('blocks private IPv4 ranges', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']
+        .forEach((address) => assert.equal(isPrivateAddress(address), true, address));
+    ['8.8.8.8', '1.1.1.1', '172.32.0.1'].forEach((address) => assert.equal(isPrivateAddress(address), false, address));
+});
+
+test('blocks private IPv6 ranges', () => {
+    ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'fec0::1', 'ff02::1', '64:ff9b:1::a']
+        .forEach((address) => assert.equal(isPrivateAddress(address), true, address));
+    ['2606:4700:4700::1111', '2a00:1450:4001:80b::200e'].forEach((address) => assert.equal(isPrivateAddress(address), false, address));
+});
+
+test('checks IPv4 addresses embedded in IPv6 ones', () => {
+    [
+        '::ffff:127.0.0.1', // mapped, dotted
+        '::ffff:7f00:1', // mapped, hex
+        '0:0:0:0:0:ffff:a9fe:a9fe', // mapped 169.254.169.254, uncompressed
+        '::127.0.0.1', // compatible
+        '::ffff:0:a00:1', // translated 10.0.0.1
+        '64:ff9b::7f00:1', // NAT64
+        '64:ff9b::10.0.0.1',
+        '2002:7f00:1::', // 6to4
+        '2002:a9fe:a9fe::1',
+        '2001:0:4136:e378:8000:63bf:80ff:fffe', // Teredo, client 127.0.0.1
+    ].forEach((address) => assert.equal(isPrivateAddress(address), true, address));
+    ['::ffff:8.8.8.8', '::ffff:808:808', '64:ff9b::808:808', '2002:808:808::1']
+        .forEach((address) => assert.equal(isPrivateAddress(address), false, address));
+});
+
+test('treats anything that is not an IP address as private', () => {
+    assert.equal(isPrivateAddress('localhost'), true);
+    assert.equal(isPrivateAddress(''), true);
+});
+
+test('splits named targets on the first = only', () => {
+    const targets = parseNamedTargets('OpenAI=https://api.openai.com, maps=https://maps.example.com/api?key=abc&region=eu,broken,=https://x.example.com');
+    assert.deepEqual([...targets], [
+        ['openai', 'https://api.openai.com'],
+        ['maps', 'https://maps.example.com/api?key=abc&region=eu'],
+    ]);
+});
@@ -0,0 +1,219 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectFormat, formatForProvider, translateRequest, translateResponse } from '../providers/translate.js';
+
+test('detects the format from the provider and endpoint', () => {
+    assert.equal(detectFormat('anthropic', '/v1/messages?beta=true'), 'anthropic');
+    assert.equal(detectFormat('openai', '/v1/chat/completions'), 'openai');
+    assert.equal(detectFormat('generic', '/openai/v1/chat/completions'), 'openai');
+    assert.equal(detectFormat('openai', '/v1/embeddings'), null);
+    assert.equal(detectFormat('gemini', '/v1/chat/completions'), null);
+    assert.equal(formatForProvider('generic'), 'openai');
+    assert.equal(formatForProvider('gemini'), null);
+});
+
+test('translates an OpenAI request to Anthropic', () => {
+    const body = translateRequest({
+        model: 'gpt-4o',
+        messages: [
+            { role: 'system', content: 'Be brief.' },
+            { role: 'developer', content: [{ type: 'text', text: 'Use metric units.' }] },
+            { role: 'user', content: 'Weather in Paris?' },
+            { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+            {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+            },
+            { role: 'tool', tool_call_id: 'call_1', content: '18C' },
+        ],
+        max_completion_tokens: 200,
+        temperature: 1.5,
+        stop: 'END',
+        user: 42,
+        tools: [{ type: 'function', function: { name: 'get_weather', description: 'Current weather', parameters: { type: 'object' } } }],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+    }, 'openai', 'anthropic', 'claude-sonnet-4-5');
+
+    assert.deepEqual(body, {
+        model: 'claude-sonnet-4-5',
+        system: 'Be brief.\n\nUse metric units.',
+        messages: [
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'Weather in Paris?' },
+                    { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+                ],
+            },
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }] },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '18C' }] },
+        ],
+        max_tokens: 200,
+        temperature: 1,
+        stop_sequences: ['END'],
+        metadata: { user_id: '42' },
+        tools: [{ name: 'get_weather', description: 'Current weather', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'tool', name: 'get_weather' },
+    });
+});
+
+test('gives Anthropic requests a max_tokens when the OpenAI one has none', () => {
+    const body = translateRequest({ messages: [{ role: 'user', content: 'Hi' }] }, 'openai', 'anthropic', 'claude-haiku-4-5');
+    assert.equal(body.max_tokens, 4096);
+    assert.equal(body.system, undefined);
+});
+
+test('translates an Anthropic request to OpenAI', () => {
+    const body = translateRequest({
+        model: 'claude-sonnet-4-5',
+        system: [{ type: 'text', text: 'Be brief.' }],
+        messages: [
+            { role: 'user', content: 'Weather in Paris?' },
+            {
+                role: 'assistant',
+                content: [
+                    { type: 'text', text: 'Checking.' },
+                    { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+                ],
+            },
+            {
+                role: 'user',
+                content: [
+                    { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '18C' }] },
+                    { type: 'text', text: 'And tomorrow?' },
+                    { type: 'image', source: { type: 'url', url: 'https://example.com/map.png' } },
+                ],
+            },
+        ],
+        max_tokens: 300,
+        stop_sequences: ['END'],
+        metadata: { user_id: 'u1' },
+        tools: [{ name: 'get_weather', description: 'Current weather', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'any' },
+    }, 'anthropic', 'openai', 'gpt-4o');
+
+    assert.deepEqual(body, {
+        model: 'gpt-4o',
+        messages: [
+            { role: 'system', content: 'Be brief.' },
+            { role: 'user', content: 'Weather in Paris?' },
+            {
+                role: 'assistant',
+                content: 'Checking.',
+                tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+            },
+            { role: 'tool', tool_call_id: 'toolu_1', content: '18C' },
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'And tomorrow?' },
+                    { type: 'image_url', image_url: { url: 'https://example.com/map.png' } },
+                ],
+            },
+        ],
+        max_tokens: 300,
+        stop: ['END'],
+        user: 'u1',
+        tools: [{ type: 'function', function: { name: 'get_weather', description: 'Current weather', parameters: { type: 'object' } } }],
+        tool_choice: 'required',
+    });
+});
+
+test('only swaps the model when the formats match', () => {
+    const original = { model: 'gpt-4o', messages: [] };
+    assert.deepEqual(translateRequest(original, 'openai', 'openai', 'gpt-4o-mini'), { model: 'gpt-4o-mini', messages: [] });
+    assert.equal(original.model, 'gpt-4o');
+    assert.throws(() => translateRequest(original, 'openai', 'gemini', 'x'), /Cannot translate requests from openai to gemini/);
+});
+
+test('translates an Anthropic response to OpenAI', () => {
+    const body = translateResponse({
+        id: 'msg_1',
+        type: 'message',
+        model: 'claude-sonnet-4-5',
+        content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, cache_creation_input_tokens: 5, cache_read_input_tokens: 20, output_tokens: 7 },
+    }, 'anthropic', 'openai');
+
+    assert.equal(body.object, 'chat.completion');
+    assert.equal(body.model, 'claude-sonnet-4-5');
+    assert.deepEqual(body.choices, [{
+        index: 0,
+        message: {
+            role: 'assistant',
+            content: 'Checking.',
+            tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+        },
+        finish_reason: 'tool_calls',
+    }]);
+    // Cache writes and reads are part of the prompt on the OpenAI side
+    assert.deepEqual(body.usage, {
+        prompt_tokens: 35,
+        completion_tokens: 7,
+        total_tokens: 42,
+        prompt_tokens_details: { cached_tokens: 20 },
+    });
+});
+
+test('maps Anthropic stop reasons to OpenAI finish reasons', () => {
+    const finishReason = (stopReason) => translateResponse({ content: [], stop_reason: stopReason }, 'anthropic', 'openai').choices[0].finish_reason;
+    assert.equal(finishReason('end_turn'), 'stop');
+    assert.equal(finishReason('stop_sequence'), 'stop');
+    assert.equal(finishReason('max_tokens'), 'length');
+    assert.equal(finishReason('refusal'), 'stop');
+});
+
+test('translates an OpenAI response to Anthropic', () => {
+    const body = translateResponse({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o',
+        choices: [{
+            message: {
+                role: 'assistant',
+                content: 'Checking.',
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+            },
+            finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 30, completion_tokens: 7, prompt_tokens_details: { cached_tokens: 20 } },
+    }, 'openai', 'anthropic');
+
+    assert.deepEqual(body, {
+        id: 'chatcmpl-1',
+        type: 'message',
+        role: 'assistant',
+        model: 'gpt-4o',
+        content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        // Cached tokens come out of the input count on the Anthropic side
+        usage: { input_tokens: 10, output_tokens: 7, cache_read_input_tokens: 20 },
+    });
+});
+
+test('maps OpenAI finish reasons to Anthropic stop reasons', () => {
+    const stopReason = (finishReason) => translateResponse({ choices: [{ message: {}, finish_reason: finishReason }] }, 'openai', 'anthropic').stop_reason;
+    assert.equal(stopReason('stop'), 'end_turn');
+    assert.equal(stopReason('length'), 'max_tokens');
+    assert.equal(stopReason('function_call'), 'tool_use');
+    assert.equal(stopReason('content_filter'), 'end_turn');
+});
+
+test('translates errors both ways', () => {
+    assert.deepEqual(
+        translateResponse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 'anthropic', 'openai'),
+        { error: { message: 'Overloaded', type: 'overloaded_error', code: null } },
+    );
+    assert.deepEqual(
+        translateResponse({ error: { message: 'Rate limit reached', type: 'requests' } }, 'openai', 'anthropic'),
+        { type: 'error', error: { type: 'requests', message: 'Rate limit reached' } },
+    );
+});
@@ -0,0 +1,20 @@
+import http from 'http';
+
+// Stand-in for Slack/Teams/generic webhooks during local testing: prints every payload it
+// receives. Point an alert rule's webhook_url at http://localhost:4040/ and run `npm run webhook-sink`.
+const PORT = process.env.WEBHOOK_SINK_PORT || 4040;
+
+http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf8');
+        let printable = body;
+        try {
+            printable = JSON.stringify(JSON.parse(body), null, 2);
+        } catch {}
+        console.log(`📨 ${new Date().toISOString()} ${req.method} ${req.url}\n${printable}\n`);
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('ok');
+    });
+}).listen(PORT, () => console.log(`📭 Webhook sink listening on http://localhost:${PORT}`));
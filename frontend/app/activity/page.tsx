@@ -42,14 +42,12 @@ export default function ActivityPage() {
   const [usageData, setUsageData] = useState<UsageData[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isMounted, setIsMounted] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
   const [activityFilter, setActivityFilter] = useState<string>("all")
   const [sortField, setSortField] = useState<SortField>("day")
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc")
 
   useEffect(() => {
-    setIsMounted(true)
     const fetchData = async () => {
       try {
         setLoading(true)
@@ -15,6 +15,7 @@ import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar"
 import { AppSidebar } from "@/components/app-sidebar"
 import { DashboardHeader } from "@/components/dashboard-header"
 import { StatsCard } from "@/components/stats-card"
+import { UsageFilterBar, type UsageScope } from "@/components/usage-filter-bar"
 import {
   Card,
   CardContent,
@@ -34,8 +35,11 @@ import {
   getAverageHitsPerDay,
   type UsageData,
 } from "@/lib/mock-data"
+import { daysAgo, usageQuery } from "@/lib/api"
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+// Analytics covers this many days, today included
+const ANALYTICS_DAYS = 30
 
 const barChartConfig: ChartConfig = {
   daily_hits: {
@@ -46,6 +50,18 @@ const barChartConfig: ChartConfig = {
     label: "Daily Cost",
     color: "hsl(142 71% 45%)",
   },
+  daily_reasoning_cost: {
+    label: "Reasoning Cost",
+    color: "hsl(271 81% 56%)",
+  },
+  daily_output_tokens: {
+    label: "Output Tokens",
+    color: "hsl(221 83% 53%)",
+  },
+  daily_reasoning_tokens: {
+    label: "Reasoning Tokens",
+    color: "hsl(271 81% 56%)",
+  },
   hits: {
     label: "Total Hits",
     color: "hsl(221 83% 53%)",
@@ -54,16 +70,15 @@ const barChartConfig: ChartConfig = {
 
 export default function AnalyticsPage() {
   const [usageData, setUsageData] = useState<UsageData[]>([])
+  const [scope, setScope] = useState<UsageScope>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isMounted, setIsMounted] = useState(false)
 
   useEffect(() => {
-    setIsMounted(true)
     const fetchData = async () => {
       try {
         setLoading(true)
-        const response = await fetch(`${API_URL}/api/usage`)
+        const response = await fetch(`${API_URL}/api/usage${usageQuery({ ...scope, from: daysAgo(ANALYTICS_DAYS - 1) })}`)
         if (!response.ok) throw new Error('Failed to fetch usage data')
         const data = await response.json()
         setUsageData(data)
@@ -77,7 +92,7 @@ export default function AnalyticsPage() {
     }
 
     fetchData()
-  }, [])
+  }, [scope])
 
   // Calculate distribution data dynamically
   const distributionData = [
@@ -86,6 +101,7 @@ export default function AnalyticsPage() {
     { name: "High (12+)", value: usageData.filter(d => d.daily_hits >= 12).length, fill: "hsl(0 84% 60%)" },
   ]
 
+  // Both cover the fetched range only; accumulative_total restarts at its first day
   const totalCost = getTotalCost(usageData)
   const totalHits = getTotalHits(usageData)
   const avgHitsPerDay = getAverageHitsPerDay(usageData)
@@ -125,6 +141,8 @@ export default function AnalyticsPage() {
         />
         <main className="flex-1 overflow-auto p-4 md:p-6">
           <div className="mx-auto max-w-7xl space-y-6">
+            <UsageFilterBar value={scope} onChange={setScope} />
+
             {/* Stats Grid */}
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <StatsCard
@@ -149,7 +167,7 @@ export default function AnalyticsPage() {
               <StatsCard
                 title="Cost Efficiency"
                 value={`$${(totalCost / totalHits * 1000).toFixed(2)}`}
-                description="Per 1000 requests"
+                description={`Per 1000 requests, last ${ANALYTICS_DAYS} days`}
                 icon={<BarChart3 className="size-4" />}
               />
             </div>
@@ -161,7 +179,7 @@ export default function AnalyticsPage() {
                 <CardHeader>
                   <CardTitle>Daily Hits Distribution</CardTitle>
                   <CardDescription>
-                    Request volume over the last 30 days
+                    Request volume over the last {ANALYTICS_DAYS} days
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -207,7 +225,7 @@ export default function AnalyticsPage() {
                 <CardHeader>
                   <CardTitle>Cost Trend</CardTitle>
                   <CardDescription>
-                    Daily cost progression
+                    Daily cost progression, with the reasoning share
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -239,7 +257,10 @@ export default function AnalyticsPage() {
                                 day: "numeric",
                               })
                             }}
-                            formatter={(value) => [`$${Number(value).toFixed(3)}`, "Cost"]}
+                            formatter={(value, name) => [
+                              `$${Number(value).toFixed(3)}`,
+                              name === "daily_reasoning_cost" ? " Reasoning" : " Total",
+                            ]}
                           />
                         }
                       />
@@ -251,12 +272,74 @@ export default function AnalyticsPage() {
                         strokeWidth={2}
                         dot={false}
                       />
+                      <Line
+                        type="monotone"
+                        dataKey="daily_reasoning_cost"
+                        name="daily_reasoning_cost"
+                        stroke="var(--color-daily_reasoning_cost)"
+                        strokeWidth={2}
+                        strokeDasharray="4 4"
+                        dot={false}
+                      />
                     </LineChart>
                   </ChartContainer>
                 </CardContent>
               </Card>
             </div>
 
+            {/* Reasoning vs Visible Output */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Reasoning Tokens</CardTitle>
+                <CardDescription>
+                  Daily &quot;thinking&quot; tokens compared to visible output
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={barChartConfig} className="h-[300px] w-full">
+                  <BarChart data={usageData} accessibilityLayer>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                      dataKey="day"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => {
+                        const date = new Date(value)
+                        return date.toLocaleDateString("en-US", { day: "numeric" })
+                      }}
+                      tick={{ fontSize: 12 }}
+                    />
+                    <YAxis tickLine={false} axisLine={false} tick={{ fontSize: 12 }} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(value) => {
+                            return new Date(value).toLocaleDateString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                            })
+                          }}
+                        />
+                      }
+                    />
+                    <Bar
+                      dataKey="daily_output_tokens"
+                      name="daily_output_tokens"
+                      stackId="tokens"
+                      fill="var(--color-daily_output_tokens)"
+                    />
+                    <Bar
+                      dataKey="daily_reasoning_tokens"
+                      name="daily_reasoning_tokens"
+                      stackId="tokens"
+                      fill="var(--color-daily_reasoning_tokens)"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
             {/* Weekly Summary */}
             <Card>
               <CardHeader>
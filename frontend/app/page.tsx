@@ -9,30 +9,39 @@ import { StatsCard } from "@/components/stats-card"
 import { LiveCostCounter } from "@/components/live-cost-counter"
 import { UsageChart } from "@/components/usage-chart"
 import { ActivityTable } from "@/components/activity-table"
+import { UpstreamHealth } from "@/components/upstream-health"
+import { UsageFilterBar, type UsageScope } from "@/components/usage-filter-bar"
 import {
   getTotalCost,
   getTotalHits,
   getAverageHitsPerDay,
   type UsageData,
 } from "@/lib/mock-data"
+import { daysAgo, usageQuery } from "@/lib/api"
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+// The overview covers this many days, today included
+const OVERVIEW_DAYS = 30
 
 export default function DashboardPage() {
   const [usageData, setUsageData] = useState<UsageData[]>([])
+  // Unranged, so the cost and hit totals cover all time rather than the charted days
+  const [allTimeData, setAllTimeData] = useState<UsageData[]>([])
+  const [scope, setScope] = useState<UsageScope>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [isMounted, setIsMounted] = useState(false)
 
   useEffect(() => {
-    setIsMounted(true)
     const fetchData = async () => {
       try {
         setLoading(true)
-        const response = await fetch(`${API_URL}/api/usage`)
-        if (!response.ok) throw new Error('Failed to fetch usage data')
-        const data = await response.json()
-        setUsageData(data)
+        const [response, allTimeResponse] = await Promise.all([
+          fetch(`${API_URL}/api/usage${usageQuery({ ...scope, from: daysAgo(OVERVIEW_DAYS - 1) })}`),
+          fetch(`${API_URL}/api/usage${usageQuery(scope)}`),
+        ])
+        if (!response.ok || !allTimeResponse.ok) throw new Error('Failed to fetch usage data')
+        setUsageData(await response.json())
+        setAllTimeData(await allTimeResponse.json())
         setError(null)
       } catch (err) {
         console.error('Error fetching data:', err)
@@ -46,10 +55,10 @@ export default function DashboardPage() {
     // Refresh every 30 seconds
     const interval = setInterval(fetchData, 30000)
     return () => clearInterval(interval)
-  }, [])
+  }, [scope])
 
-  const totalCost = getTotalCost(usageData)
-  const totalHits = getTotalHits(usageData)
+  const totalCost = getTotalCost(allTimeData)
+  const totalHits = getTotalHits(allTimeData)
   const avgHitsPerDay = getAverageHitsPerDay(usageData)
   const todayHits = usageData[usageData.length - 1]?.daily_hits ?? 0
 
@@ -74,6 +83,8 @@ export default function DashboardPage() {
               </div>
             )}
 
+            <UsageFilterBar value={scope} onChange={setScope} />
+
             {/* Stats Grid */}
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <LiveCostCounter initialCost={totalCost} />
@@ -93,14 +104,17 @@ export default function DashboardPage() {
               <StatsCard
                 title="Avg. Daily Hits"
                 value={safeFormattedAvgHits}
-                description="Over last 30 days"
+                description={`Over last ${OVERVIEW_DAYS} days`}
                 icon={<TrendingUp className="size-4" />}
                 trend={{ value: 8.2, isPositive: true }}
               />
             </div>
 
+            {/* Circuit breaker state per upstream host */}
+            <UpstreamHealth />
+
             {/* Chart */}
-            <UsageChart data={usageData} />
+            <UsageChart data={usageData} period={`the last ${OVERVIEW_DAYS} days`} />
 
             {/* Recent Activity Table */}
             <ActivityTable data={usageData} />
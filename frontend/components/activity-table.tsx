@@ -33,7 +33,7 @@ export function ActivityTable({ data }: ActivityTableProps) {
         <CardHeader>
           <CardTitle>Recent Activity</CardTitle>
           <CardDescription>
-            Your usage history for the last 10 days
+            Your 10 most recent days with traffic
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -50,7 +50,7 @@ export function ActivityTable({ data }: ActivityTableProps) {
       <CardHeader>
         <CardTitle>Recent Activity</CardTitle>
         <CardDescription>
-          Your usage history for the last 10 days
+          Your 10 most recent days with traffic
         </CardDescription>
       </CardHeader>
       <CardContent>
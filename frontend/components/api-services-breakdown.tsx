@@ -1,7 +1,7 @@
 "use client"
 
 import { useEffect, useState, useMemo } from "react"
-import { Activity, Clock, CheckCircle2, XCircle, DollarSign, TrendingUp, AlertCircle, Search } from "lucide-react"
+import { Activity, Clock, CheckCircle2, XCircle, DollarSign, TrendingUp, AlertCircle, Search, Database, Brain, Gauge, Wallet, PiggyBank, RotateCcw } from "lucide-react"
 import {
   Card,
   CardContent,
@@ -51,7 +51,18 @@ interface ServiceData {
   last_used: string
   total_input_tokens: number
   total_output_tokens: number
+  total_cache_write_tokens: number
+  total_cache_read_tokens: number
+  total_reasoning_tokens: number
+  reasoning_cost: number
+  cache_hit_rate: string
   total_tokens: number
+  throttled_count: number
+  budget_blocked_count: number
+  cache_hits: number
+  cost_avoided: number
+  retry_attempts: number
+  retry_cost: number
 }
 
 export function ApiServicesBreakdown() {
@@ -88,7 +99,7 @@ export function ApiServicesBreakdown() {
 
   // Filter, search, and sort services
   const filteredAndSortedServices = useMemo(() => {
-    let filtered = services.filter(service => {
+    const filtered = services.filter(service => {
       // Search filter
       const matchesSearch = searchQuery === "" || 
         service.service_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -231,19 +242,24 @@ export function ApiServicesBreakdown() {
                 <TableHead className="text-right">Avg Latency</TableHead>
                 <TableHead className="text-right">Est. Cost</TableHead>
                 <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cache Hits</TableHead>
                 <TableHead>Last Used</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredAndSortedServices.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
                     No services found matching your filters
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredAndSortedServices.map((service, index) => {
                   const successRate = parseFloat(service.success_rate)
+                  const cacheHitRate = parseFloat(service.cache_hit_rate) || 0
+                  const reasoningShare = service.estimated_cost > 0
+                    ? Math.min(((service.reasoning_cost || 0) / service.estimated_cost) * 100, 100)
+                    : 0
                   const key = `${service.service_name}-${service.endpoint}-${index}`
                   
                   return (
@@ -297,6 +313,12 @@ export function ApiServicesBreakdown() {
                             <span className="text-sm tabular-nums">{(service.total_tokens || 0).toLocaleString()}</span>
                           </div>
                         </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-1">
+                            <Database className="size-3 text-muted-foreground" />
+                            <span className="text-sm tabular-nums">{cacheHitRate}%</span>
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <span className="text-xs text-muted-foreground">
                             {new Date(service.last_used).toLocaleDateString("en-US", {
@@ -380,6 +402,48 @@ export function ApiServicesBreakdown() {
                               In: {(service.total_input_tokens || 0).toLocaleString()} • Out: {(service.total_output_tokens || 0).toLocaleString()}
                             </div>
                           </div>
+
+                          <div className="p-3 border rounded-lg">
+                            <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+                              <Database className="size-3" />
+                              <span className="text-xs font-medium">Cache Hit Ratio</span>
+                            </div>
+                            <div className="text-xl font-bold">{cacheHitRate}%</div>
+                            <Progress value={cacheHitRate} className="h-1.5 mt-1.5" />
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Read: {(service.total_cache_read_tokens || 0).toLocaleString()} • Write: {(service.total_cache_write_tokens || 0).toLocaleString()}
+                            </div>
+                          </div>
+
+                          {(service.cache_hits || 0) > 0 && (
+                            <div className="p-3 border rounded-lg col-span-2">
+                              <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+                                <PiggyBank className="size-3" />
+                                <span className="text-xs font-medium">Saved by Response Cache</span>
+                              </div>
+                              <div className="flex items-baseline justify-between">
+                                <div className="text-xl font-bold">${(service.cost_avoided || 0).toFixed(4)}</div>
+                                <div className="text-sm font-medium tabular-nums">
+                                  {service.cache_hits.toLocaleString()} cached {service.cache_hits === 1 ? "response" : "responses"}
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
+                          <div className="p-3 border rounded-lg col-span-2">
+                            <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+                              <Brain className="size-3" />
+                              <span className="text-xs font-medium">Reasoning</span>
+                            </div>
+                            <div className="flex items-baseline justify-between">
+                              <div className="text-xl font-bold">{(service.total_reasoning_tokens || 0).toLocaleString()} tokens</div>
+                              <div className="text-sm font-medium tabular-nums">${(service.reasoning_cost || 0).toFixed(4)}</div>
+                            </div>
+                            <Progress value={reasoningShare} className="h-1.5 mt-1.5" />
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {reasoningShare.toFixed(1)}% of cost spent on thinking rather than visible output
+                            </div>
+                          </div>
                         </div>
 
                         {/* Request Breakdown */}
@@ -402,6 +466,39 @@ export function ApiServicesBreakdown() {
                               {service.error_count.toLocaleString()}
                             </Badge>
                           </div>
+                          {(service.throttled_count || 0) > 0 && (
+                            <div className="flex items-center justify-between p-2.5 bg-amber-50 dark:bg-amber-950/20 rounded-lg">
+                              <div className="flex items-center gap-2">
+                                <Gauge className="size-3.5 text-amber-600" />
+                                <span className="text-xs font-medium">Throttled by gateway</span>
+                              </div>
+                              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                                {service.throttled_count.toLocaleString()}
+                              </Badge>
+                            </div>
+                          )}
+                          {(service.budget_blocked_count || 0) > 0 && (
+                            <div className="flex items-center justify-between p-2.5 bg-amber-50 dark:bg-amber-950/20 rounded-lg">
+                              <div className="flex items-center gap-2">
+                                <Wallet className="size-3.5 text-amber-600" />
+                                <span className="text-xs font-medium">Blocked by budget</span>
+                              </div>
+                              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                                {service.budget_blocked_count.toLocaleString()}
+                              </Badge>
+                            </div>
+                          )}
+                          {(service.retry_attempts || 0) > 0 && (
+                            <div className="flex items-center justify-between p-2.5 bg-amber-50 dark:bg-amber-950/20 rounded-lg">
+                              <div className="flex items-center gap-2">
+                                <RotateCcw className="size-3.5 text-amber-600" />
+                                <span className="text-xs font-medium">Retries &amp; fallbacks</span>
+                              </div>
+                              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                                {service.retry_attempts.toLocaleString()} · ${(service.retry_cost || 0).toFixed(4)}
+                              </Badge>
+                            </div>
+                          )}
                         </div>
 
                         {/* Last Activity */}
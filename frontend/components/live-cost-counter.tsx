@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react"
 import { DollarSign } from "lucide-react"
 import { StatsCard } from "./stats-card"
+import { useMounted } from "@/hooks/use-mounted"
 
 interface LiveCostCounterProps {
   initialCost: number
@@ -10,10 +11,16 @@ interface LiveCostCounterProps {
 
 export function LiveCostCounter({ initialCost }: LiveCostCounterProps) {
   const [cost, setCost] = useState(initialCost)
-  const [isMounted, setIsMounted] = useState(false)
+  const [startingCost, setStartingCost] = useState(initialCost)
+  const isMounted = useMounted()
+
+  // Start again from each fetched total, e.g. after the filters change
+  if (initialCost !== startingCost) {
+    setStartingCost(initialCost)
+    setCost(initialCost)
+  }
 
   useEffect(() => {
-    setIsMounted(true)
     // Simulate live cost updates every 3-8 seconds
     const interval = setInterval(() => {
       const increment = Math.random() * 0.005 + 0.001
@@ -28,21 +28,22 @@ export function StatsCard({
   isLive = false,
   className,
 }: StatsCardProps) {
-  const [displayValue, setDisplayValue] = useState(value)
-  const [isAnimating, setIsAnimating] = useState(false)
-
   // Ensure value is never NaN
   const safeValue = typeof value === 'number' && isNaN(value) ? 0 : value
+  const [displayValue, setDisplayValue] = useState(safeValue)
+  const [isAnimating, setIsAnimating] = useState(false)
 
-  useEffect(() => {
-    if (isLive && typeof safeValue === "number") {
-      setIsAnimating(true)
-      const timeout = setTimeout(() => setIsAnimating(false), 300)
-      setDisplayValue(safeValue)
-      return () => clearTimeout(timeout)
-    }
+  // Live values pulse briefly whenever they change
+  if (safeValue !== displayValue) {
     setDisplayValue(safeValue)
-  }, [safeValue, isLive])
+    if (isLive && typeof safeValue === "number") setIsAnimating(true)
+  }
+
+  useEffect(() => {
+    if (!isAnimating) return
+    const timeout = setTimeout(() => setIsAnimating(false), 300)
+    return () => clearTimeout(timeout)
+  }, [isAnimating, displayValue])
 
   return (
     <Card className={cn("relative overflow-hidden", className)}>
@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ShieldCheck, ShieldAlert, ShieldX, DatabaseZap } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+
+interface CircuitData {
+  host: string
+  state: "closed" | "open" | "half_open"
+  requests: number
+  failure_rate: number
+  slow_call_rate: number
+  opened_at: string | null
+  retry_at: string | null
+  last_failure: { at: string; reason: string } | null
+}
+
+interface LogQueueData {
+  depth: number
+  oldest_pending_age_ms: number
+  consecutive_failures: number
+  failing: boolean
+  rejected: number
+}
+
+interface HealthData {
+  status: string
+  circuit_breaker: boolean
+  circuits: CircuitData[]
+  log_queue?: LogQueueData
+}
+
+const STATE_DISPLAY = {
+  closed: { label: "Healthy", icon: ShieldCheck, className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  half_open: { label: "Recovering", icon: ShieldAlert, className: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200" },
+  open: { label: "Failing fast", icon: ShieldX, className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+}
+
+export function UpstreamHealth() {
+  const [health, setHealth] = useState<HealthData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/health`)
+        if (!response.ok) throw new Error('Failed to fetch gateway health')
+        const data = await response.json()
+        setHealth(data)
+        setError(null)
+      } catch (err) {
+        console.error('Error fetching health:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load gateway health')
+      }
+    }
+
+    fetchHealth()
+    // Circuits change quickly, so refresh more often than usage data
+    const interval = setInterval(fetchHealth, 10000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const logQueue = health?.log_queue
+
+  // Open circuits first, then the busiest hosts
+  const circuits = [...(health?.circuits || [])].sort((a, b) => {
+    const order = { open: 0, half_open: 1, closed: 2 }
+    return order[a.state] - order[b.state] || b.requests - a.requests
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upstream Health</CardTitle>
+        <CardDescription>
+          {health && !health.circuit_breaker
+            ? "Circuit breaker is switched off (CIRCUIT_BREAKER=false)"
+            : "Circuit breaker state per provider host, from this gateway's recent traffic"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="rounded-lg bg-red-50 p-4 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+        {logQueue && logQueue.depth > 0 && (
+          <div className="mb-4 flex items-center gap-2 rounded-lg bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-950 dark:text-amber-200">
+            <DatabaseZap className="size-4 shrink-0" />
+            <span>
+              {logQueue.depth.toLocaleString()} usage rows waiting to be written, oldest {Math.round(logQueue.oldest_pending_age_ms / 1000)}s ago
+              {logQueue.failing && ` · inserts failing (${logQueue.consecutive_failures} in a row), see the gateway log`}
+            </span>
+          </div>
+        )}
+        {!error && circuits.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No upstream traffic since the gateway started
+          </div>
+        )}
+        {circuits.length > 0 && (
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {circuits.map((circuit) => {
+              const display = STATE_DISPLAY[circuit.state]
+              const Icon = display.icon
+              return (
+                <div key={circuit.host} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Icon className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="text-sm font-medium truncate">{circuit.host}</span>
+                    </div>
+                    <Badge variant="secondary" className={`text-xs ${display.className}`}>
+                      {display.label}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{circuit.requests.toLocaleString()} recent calls</span>
+                    <span>{circuit.failure_rate}% failed · {circuit.slow_call_rate}% slow</span>
+                  </div>
+                  {circuit.retry_at && (
+                    <div className="text-xs text-muted-foreground">
+                      Probing again at {new Date(circuit.retry_at).toLocaleTimeString()}
+                    </div>
+                  )}
+                  {circuit.last_failure && (
+                    <div className="text-xs text-muted-foreground truncate">
+                      Last failure: {circuit.last_failure.reason} at {new Date(circuit.last_failure.at).toLocaleTimeString()}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
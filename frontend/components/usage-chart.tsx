@@ -1,10 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
-import { ChartLegendContent } from "@/components/ui/chart"
-
-import { ChartLegend } from "@/components/ui/chart"
-
+import { useMounted } from "@/hooks/use-mounted"
 import {
   Area,
   AreaChart,
@@ -34,14 +30,12 @@ const chartConfig: ChartConfig = {
 
 interface UsageChartProps {
   data: UsageData[]
+  // The range `data` was fetched for, e.g. "the last 30 days"
+  period?: string
 }
 
-export function UsageChart({ data }: UsageChartProps) {
-  const [isMounted, setIsMounted] = useState(false)
-
-  useEffect(() => {
-    setIsMounted(true)
-  }, [])
+export function UsageChart({ data, period = "all time" }: UsageChartProps) {
+  const isMounted = useMounted()
 
   // Format date for display - only after mount to prevent hydration mismatch
   const formattedData = data.map((item) => {
@@ -71,7 +65,7 @@ export function UsageChart({ data }: UsageChartProps) {
       <CardHeader>
         <CardTitle>Usage Overview</CardTitle>
         <CardDescription>
-          Daily hits compared to accumulative total over the last 30 days
+          Daily hits compared to accumulative total over {period}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,60 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { Filter, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import type { UsageFilters } from "@/lib/api"
+
+export type UsageScope = Pick<UsageFilters, "service_name" | "user_id">
+
+interface UsageFilterBarProps {
+  value: UsageScope
+  onChange: (scope: UsageScope) => void
+}
+
+// Narrows a page to one service and/or user. Values apply on submit so typing doesn't refetch.
+export function UsageFilterBar({ value, onChange }: UsageFilterBarProps) {
+  const [serviceName, setServiceName] = useState(value.service_name ?? "")
+  const [userId, setUserId] = useState(value.user_id ?? "")
+
+  const apply = (event: FormEvent) => {
+    event.preventDefault()
+    onChange({ service_name: serviceName.trim(), user_id: userId.trim() })
+  }
+
+  const clear = () => {
+    setServiceName("")
+    setUserId("")
+    onChange({})
+  }
+
+  const isFiltered = Boolean(value.service_name || value.user_id)
+
+  return (
+    <form onSubmit={apply} className="flex flex-col gap-3 sm:flex-row">
+      <Input
+        placeholder="Service name"
+        value={serviceName}
+        onChange={(e) => setServiceName(e.target.value)}
+        className="sm:max-w-[220px]"
+      />
+      <Input
+        placeholder="User ID"
+        value={userId}
+        onChange={(e) => setUserId(e.target.value)}
+        className="sm:max-w-[220px]"
+      />
+      <Button type="submit" variant="outline">
+        <Filter className="size-4" />
+        Apply
+      </Button>
+      {isFiltered && (
+        <Button type="button" variant="ghost" onClick={clear}>
+          <X className="size-4" />
+          Clear
+        </Button>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,9 @@
+import * as React from "react"
+
+const subscribe = () => () => {}
+
+// False while rendering on the server and hydrating, true afterwards. Lets components render
+// locale- or time-dependent output without a hydration mismatch.
+export function useMounted() {
+  return React.useSyncExternalStore(subscribe, () => true, () => false)
+}
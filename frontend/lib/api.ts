@@ -4,12 +4,43 @@ export interface UsageData {
   day: string;
   daily_hits: number;
   daily_cost: number;
+  daily_output_tokens: number;
+  daily_reasoning_tokens: number;
+  daily_reasoning_cost: number;
   accumulative_total: number;
 }
 
-export async function fetchUsageData(): Promise<UsageData[]> {
+// Filters accepted by /api/usage and /api/services. `from` and `to` are dates (YYYY-MM-DD, `to`
+// included) or ISO timestamps; `status` is a code (429) or a class (5xx).
+export interface UsageFilters {
+  from?: string;
+  to?: string;
+  service_name?: string;
+  user_id?: string;
+  model?: string;
+  status?: string;
+  endpoint?: string;
+}
+
+export function usageQuery(filters: UsageFilters = {}): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value) params.set(name, value);
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+// The UTC date `days` days ago, e.g. as the `from` of a "last N days" range ending today
+export function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+export async function fetchUsageData(filters: UsageFilters = {}): Promise<UsageData[]> {
   try {
-    const response = await fetch(`${API_URL}/api/usage`);
+    const response = await fetch(`${API_URL}/api/usage${usageQuery(filters)}`);
     if (!response.ok) throw new Error('Failed to fetch usage data');
     return await response.json();
   } catch (error) {
@@ -2,6 +2,9 @@ export interface UsageData {
   day: string
   daily_hits: number
   daily_cost: number
+  daily_output_tokens: number
+  daily_reasoning_tokens: number
+  daily_reasoning_cost: number
   accumulative_total: number
 }
 
@@ -17,12 +20,17 @@ function generateMockData(): UsageData[] {
     
     const dailyHits = Math.floor(Math.random() * 15) + 2
     const dailyCost = Number((dailyHits * 0.004 + Math.random() * 0.01).toFixed(3))
+    const dailyOutputTokens = dailyHits * (Math.floor(Math.random() * 400) + 100)
+    const dailyReasoningTokens = Math.floor(dailyOutputTokens * Math.random())
     accumulativeTotal += dailyHits
 
     data.push({
       day: date.toISOString().split('T')[0],
       daily_hits: dailyHits,
       daily_cost: dailyCost,
+      daily_output_tokens: dailyOutputTokens,
+      daily_reasoning_tokens: dailyReasoningTokens,
+      daily_reasoning_cost: Number((dailyCost * 0.3).toFixed(3)),
       accumulative_total: accumulativeTotal,
     })
   }